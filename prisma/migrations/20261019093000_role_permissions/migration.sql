@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Role" ADD COLUMN "permissions" TEXT NOT NULL DEFAULT '';
+
+-- Create the default roles that are missing
+INSERT OR IGNORE INTO "Role" ("id", "name", "updated_at") VALUES
+    (lower(hex(randomblob(16))), 'Community Admin', CURRENT_TIMESTAMP),
+    (lower(hex(randomblob(16))), 'Community Moderator', CURRENT_TIMESTAMP),
+    (lower(hex(randomblob(16))), 'Community Member', CURRENT_TIMESTAMP);
+
+-- Map the default role names to their permissions
+UPDATE "Role" SET "permissions" = 'community:edit,member:add,member:remove,role:assign' WHERE "name" = 'Community Admin';
+UPDATE "Role" SET "permissions" = 'member:remove' WHERE "name" = 'Community Moderator';
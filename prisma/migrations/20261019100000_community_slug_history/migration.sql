@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "CommunitySlug" (
+    "slug" TEXT NOT NULL PRIMARY KEY,
+    "community" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CommunitySlug_community_fkey" FOREIGN KEY ("community") REFERENCES "Community" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Community" ADD COLUMN "visibility" TEXT NOT NULL DEFAULT 'public';
+
+-- CreateTable
+CREATE TABLE "JoinRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "community" TEXT NOT NULL,
+    "user" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_by" TEXT,
+    "decided_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "JoinRequest_community_fkey" FOREIGN KEY ("community") REFERENCES "Community" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "JoinRequest_user_fkey" FOREIGN KEY ("user") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "actor" TEXT,
+    "action" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "community" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_community_idx" ON "AuditEvent"("community");
+
+-- Let admins read the audit log
+UPDATE "Role" SET "permissions" = "permissions" || ',audit:view' WHERE "name" = 'Community Admin';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "email_verified_at" DATETIME;
+
+-- Users who signed up before verification existed keep their access
+UPDATE "User" SET "email_verified_at" = CURRENT_TIMESTAMP;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "CommunityEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "community" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "CommunityEvent_community_id_idx" ON "CommunityEvent"("community", "id");
+
+-- CreateIndex
+CREATE INDEX "CommunityEvent_created_at_idx" ON "CommunityEvent"("created_at");
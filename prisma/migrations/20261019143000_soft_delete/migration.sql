@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Community" ADD COLUMN "deleted_at" DATETIME;
+
+-- AlterTable
+ALTER TABLE "Member" ADD COLUMN "deleted_at" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Community_deleted_at_idx" ON "Community"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "Member_deleted_at_idx" ON "Member"("deleted_at");
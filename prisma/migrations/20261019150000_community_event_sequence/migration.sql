@@ -0,0 +1,18 @@
+-- RedefineTables
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_CommunityEvent" (
+    "seq" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "id" TEXT NOT NULL,
+    "community" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_CommunityEvent" ("id", "community", "event", "data", "created_at") SELECT "id", "community", "event", "data", "created_at" FROM "CommunityEvent" ORDER BY "id";
+DROP TABLE "CommunityEvent";
+ALTER TABLE "new_CommunityEvent" RENAME TO "CommunityEvent";
+CREATE UNIQUE INDEX "CommunityEvent_id_key" ON "CommunityEvent"("id");
+CREATE INDEX "CommunityEvent_community_seq_idx" ON "CommunityEvent"("community", "seq");
+CREATE INDEX "CommunityEvent_created_at_idx" ON "CommunityEvent"("created_at");
+PRAGMA foreign_key_check;
+PRAGMA foreign_keys=ON;
@@ -0,0 +1,23 @@
+import express from "express";
+import cors from "cors";
+
+import { routes } from "./routes";
+import { errorHandler, notFoundHandler } from "./utils/errors";
+import { config } from "./utils/config";
+
+// Build the Express app without listening, so tests can mount it in-process
+export function createApp() {
+  const app = express();
+
+  app.use(cors({ origin: config.corsOrigins }));
+  app.use(express.json());
+
+  for (const { path, router } of routes) {
+    app.use(path, router);
+  }
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -1,31 +1,26 @@
-import express from "express";
-import cors from "cors";
-import * as dotenv from "dotenv";
-
-import roleRoute from "./routes/Role";
-import userRoute from './routes/User';
-import communityRoute from './routes/Community';
-import memberRoute from './routes/Member';
-
-dotenv.config();
-
-if (!process.env.PORT) {
-  process.exit(1);
-}
-
-const PORT: number = parseInt(process.env.PORT as string, 10);
-
-const app = express();
-
-app.use(cors());
-app.use(express.json())
+import { createApp } from "./app";
+import { config } from "./utils/config";
+import { logger } from "./utils/logger";
+import { registerGracefulShutdown } from "./utils/shutdown";
+import { startWebhookWorker } from "./utils/webhooks";
+import { closeEventStreams } from "./utils/eventStream";
+import { startPurgeJob } from "./utils/softDelete";
+
+const app = createApp();
+
+const server = app.listen(config.port, () => {
+  logger.info(`Listening on port ${config.port}`);
+});
 
-app.use("/v1", roleRoute);
-app.use("/v1/auth",userRoute)
-app.use("/v1/community",communityRoute)
-app.use("/v1/member",memberRoute)
+// Send queued webhook deliveries in the background
+const stopWebhookWorker = startWebhookWorker();
 
+// Purge deleted communities and members once they can no longer be restored
+const stopPurgeJob = startPurgeJob();
 
-app.listen(PORT, () => {
-  console.log(`Listening on port ${PORT}`);
-});
+// Event streams stay open until closed, so they would hold the shutdown up
+registerGracefulShutdown(server, [
+  stopWebhookWorker,
+  stopPurgeJob,
+  closeEventStreams,
+]);
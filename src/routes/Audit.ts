@@ -0,0 +1,71 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import { ForbiddenError, asyncHandler } from "../utils/errors";
+import { can } from "../utils/permissions";
+import { AUDIT_ACTIONS, toAuditEventResponse } from "../utils/audit";
+import {
+  buildPage,
+  getPagination,
+  getPaginationArgs,
+} from "../utils/pagination";
+
+const router = express.Router();
+
+// Define the query string schema for listing audit events
+export const auditListSchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: z.string().trim().min(1).optional(),
+});
+
+// GET /v1/community/:id/audit
+router.get(
+  "/:id/audit",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Check if the user is allowed to read the audit log
+    const canViewAudit = await can(req.user!.id, id, "audit:view");
+
+    if (!canViewAudit) {
+      throw new ForbiddenError();
+    }
+
+    // Read the pagination and filter parameters from the query string
+    const pagination = getPagination(req.query);
+    const { action, actor } = auditListSchema.parse(req.query);
+
+    const where: Prisma.AuditEventWhereInput = {
+      community: id,
+      ...(action && { action }),
+      ...(actor && { actor }),
+    };
+
+    // Get the events of the community, newest first
+    const [total, events] = await Promise.all([
+      db.auditEvent.count({ where }),
+      db.auditEvent.findMany({
+        where,
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "desc" },
+      }),
+    ]);
+
+    // Return the success response
+    const { meta, data } = buildPage(events, total, pagination);
+
+    res.status(200).json({
+      status: true,
+      content: {
+        meta,
+        data: data.map(toAuditEventResponse),
+      },
+    });
+  })
+);
+
+export default router;
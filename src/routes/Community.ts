@@ -1,103 +1,185 @@
 import { Router, Request, Response } from "express";
 import { z } from "zod";
 import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Prisma } from "@prisma/client";
 import { db } from "../utils/db.server";
-import jwt from "jsonwebtoken";
+import { optionalAuth, requireAuth } from "../utils/auth";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  asyncHandler,
+} from "../utils/errors";
+import { can, getDefaultAdminRole, getPermissions } from "../utils/permissions";
+import { recordAudit } from "../utils/audit";
+import { publishCommunityEvent } from "../utils/communityEvents";
+import { assertEmailVerified } from "../utils/emailVerification";
+import { memberSelect, toMemberResponse } from "../utils/members";
+import { assertRestorable } from "../utils/softDelete";
+import {
+  findCommunityByOldSlug,
+  generateUniqueSlug,
+  recordSlugChange,
+} from "../utils/slug";
+import { VISIBILITIES, canViewCommunity } from "../utils/visibility";
+import {
+  SORT_OPTIONS,
+  SortOption,
+  buildPage,
+  getPagination,
+  getPaginationArgs,
+} from "../utils/pagination";
 
 const router = Router();
 
 // Define the request body schema
-const communitySchema = z.object({
+export const communitySchema = z.object({
   name: z.string().min(2),
+  visibility: z.enum(VISIBILITIES).default("public"),
 });
 
+// Define the request body schema
+export const updateCommunitySchema = z
+  .object({
+    name: z.string().min(2),
+    visibility: z.enum(VISIBILITIES),
+  })
+  .partial();
+
+// Define the request body schema
+export const transferSchema = z.object({
+  user: z.string(),
+});
+
+// Define the query string schema for listing communities
+export const communityListSchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(SORT_OPTIONS).default("created_at"),
+});
+
+// Define the query string schema for listing members
+export const memberListSchema = z.object({
+  role: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(1).optional(),
+  sort: z.enum(SORT_OPTIONS).default("created_at"),
+});
+
+// Function to order communities, ties are broken by ID to keep cursors stable
+function getCommunityOrderBy(
+  sort: SortOption
+): Prisma.CommunityOrderByWithRelationInput[] {
+  switch (sort) {
+    case "name":
+      return [{ name: "asc" }, { id: "asc" }];
+    case "-created_at":
+      return [{ created_at: "desc" }, { id: "desc" }];
+    default:
+      return [{ created_at: "asc" }, { id: "asc" }];
+  }
+}
+
+// Function to order members, name sorts by the name of the user
+function getMemberOrderBy(
+  sort: SortOption
+): Prisma.MemberOrderByWithRelationInput[] {
+  switch (sort) {
+    case "name":
+      return [{ user_fk: { name: "asc" } }, { id: "asc" }];
+    case "-created_at":
+      return [{ created_at: "desc" }, { id: "desc" }];
+    default:
+      return [{ created_at: "asc" }, { id: "asc" }];
+  }
+}
+
 // POST /v1/community
-router.post("/", async (req: Request, res: Response) => {
-  try {
+router.post(
+  "/",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
     // Validate the request body against the schema
     const validatedData = communitySchema.parse(req.body);
 
-    // Generate the slug
-    const slug = generateSlug(validatedData.name);
+    // Only users with a verified email address can create communities
+    await assertEmailVerified(
+      req.user!.id,
+      "Verify your email address to create communities."
+    );
 
-    // Get the owner ID from the access token
-    const accessToken = req.headers.authorization?.split(" ")[1] || "";
-    const ownerId = getUserIdFromAccessToken(accessToken);
+    // Generate a slug no other community uses
+    const slug = await generateUniqueSlug(validatedData.name);
 
-    if (!ownerId) {
-      return res.status(401).json({
-        status: false,
-        errors: [
-          { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
-        ],
-      });
-    }
+    // The signed in user becomes the owner
+    const ownerId = req.user!.id;
 
     // Generate a unique ID for the community using Snowflake
     const communityId = Snowflake.generate();
 
-    // Create the community in the database
-    const community = await db.community.create({
-      data: {
-        id: communityId,
-        name: validatedData.name,
-        slug,
-        owner: ownerId,
-      },
+    // Create the community in the database and record it in the audit log
+    const community = await db.$transaction(async (tx) => {
+      const createdCommunity = await tx.community.create({
+        data: {
+          id: communityId,
+          name: validatedData.name,
+          slug,
+          owner: ownerId,
+          visibility: validatedData.visibility,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: ownerId,
+          action: "community.create",
+          target: communityId,
+          community: communityId,
+          after: createdCommunity,
+        },
+        tx
+      );
+
+      return createdCommunity;
     });
 
     // Return the success response
-    return res.status(201).json({
+    res.status(201).json({
       status: true,
       content: {
         data: community,
       },
     });
-  } catch (error) {
-    // Handle the validation error and return the error response
-    if (error instanceof z.ZodError) {
-      const errors = error.errors.map((err) => ({
-        param: err.path[0],
-        message: err.message,
-        code: "INVALID_INPUT",
-      }));
-
-      return res.status(400).json({
-        status: false,
-        errors,
-      });
-    }
-
-    // Return a generic error response for any other errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
-    });
-  }
-});
-
-router.get("/", async (req: Request, res: Response) => {
-  try {
-    const page = parseInt(req.query.page as string) || 1;
-    const perPage = 10;
-    const skip = (page - 1) * perPage;
+  })
+);
+
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    // Read the pagination, search and sort parameters from the query string
+    const pagination = getPagination(req.query);
+    const { q, sort } = communityListSchema.parse(req.query);
+
+    // Private and deleted communities are never listed
+    const where: Prisma.CommunityWhereInput = {
+      visibility: { not: "private" },
+      deleted_at: null,
+      ...(q && {
+        OR: [{ name: { contains: q } }, { slug: { contains: q } }],
+      }),
+    };
 
     // Get total count of communities
-    const totalCount = await db.community.count();
-
-    // Calculate total pages
-    const totalPages = Math.ceil(totalCount / perPage);
+    const totalCount = await db.community.count({ where });
 
     // Get communities with pagination
     const communities = await db.community.findMany({
-      take: perPage,
-      skip: skip,
+      where,
+      ...getPaginationArgs(pagination),
+      orderBy: getCommunityOrderBy(sort),
       select: {
         id: true,
         name: true,
         slug: true,
+        visibility: true,
         created_at: true,
         updated_at: true,
         ownerId: {
@@ -112,242 +194,536 @@ router.get("/", async (req: Request, res: Response) => {
     // Prepare the response object
     const response = {
       status: true,
-      content: {
-        meta: {
-          total: totalCount,
-          pages: totalPages,
-          page: page,
-        },
-        data: communities,
-      },
+      content: buildPage(communities, totalCount, pagination),
     };
 
     // Return the success response
-    return res.status(200).json(response);
-  } catch (error) {
-    console.error("Error fetching communities:", error);
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
-    });
-  }
-});
+    res.status(200).json(response);
+  })
+);
 
 // GET /v1/community/:id/members
-router.get("/:id/members", async (req: Request, res: Response) => {
-  try {
+router.get(
+  "/:id/members",
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
-    // Retrieve the page number from the query parameters or default to 1
-    const page = parseInt(req.query.page as string) || 1;
-    const pageSize = 10;
-    const skip = (page - 1) * pageSize;
-
-    // Get the total count of members in the community
-    const totalMembers = await db.member.count({
-      where: { community: id },
+    // Check if the community exists and is visible to the user
+    const community = await db.community.findFirst({
+      where: { id, deleted_at: null },
     });
 
-    // Calculate the total number of pages
-    const totalPages = Math.ceil(totalMembers / pageSize);
+    if (!community || !(await canViewCommunity(req.user?.id, community))) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Read the pagination, filter and sort parameters from the query string
+    const pagination = getPagination(req.query);
+    const { role, name, sort } = memberListSchema.parse(req.query);
+
+    // Filter by role ID or name and by the name of the user
+    const where: Prisma.MemberWhereInput = {
+      community: id,
+      deleted_at: null,
+      ...(role && { role_fk: { OR: [{ id: role }, { name: role }] } }),
+      ...(name && { user_fk: { name: { contains: name } } }),
+    };
+
+    // Get the total count of matching members in the community
+    const totalMembers = await db.member.count({ where });
 
     // Fetch the members of the community with pagination
     const members = await db.member.findMany({
-      where: { community: id },
-      select: {
-        id: true,
-        community: true,
-        user_fk: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        role: true,
-        created_at: true,
-      },
-      skip,
-      take: pageSize,
+      where,
+      select: memberSelect,
+      ...getPaginationArgs(pagination),
+      orderBy: getMemberOrderBy(sort),
     });
 
-    // Extract the unique role IDs from the members
-    const roleIds = Array.from(new Set(members.map((member) => member.role)));
+    // Return the success response
+    const { meta, data } = buildPage(members, totalMembers, pagination);
 
-    // Fetch the roles using the extracted role IDs
-    const roles = await db.role.findMany({
-      where: { id: { in: roleIds } },
-      select: {
-        id: true,
-        name: true,
+    res.status(200).json({
+      status: true,
+      content: {
+        meta,
+        data: data.map(toMemberResponse),
       },
     });
+  })
+);
 
-    // Combine the member and role data to create the desired response structure
-    const responseData = members.map((member) => ({
-      id: member.id,
-      community: member.community,
-      user: member.user_fk,
-      role: roles.find((role) => role.id === member.role),
-      created_at: member.created_at,
-    }));
+// GET /v1/community/me/owner
+router.get(
+  "/me/owner",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Get the owner ID of the signed in user
+    const ownerId = req.user!.id;
+
+    // Read the pagination parameters from the query string
+    const pagination = getPagination(req.query);
+
+    const where = { owner: ownerId, deleted_at: null };
+
+    // Get the communities owned by the user
+    const [total, communities] = await Promise.all([
+      db.community.count({ where }),
+      db.community.findMany({
+        where,
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "asc" },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          owner: true,
+          visibility: true,
+          created_at: true,
+          updated_at: true,
+        },
+      }),
+    ]);
 
     // Return the success response
-    return res.status(200).json({
+    res.status(200).json({
       status: true,
-      content: {
-        meta: {
-          total: totalMembers,
-          pages: totalPages,
-          page: page,
+      content: buildPage(communities, total, pagination),
+    });
+  })
+);
+
+router.get(
+  "/me/member",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Get the user ID of the signed in user
+    const userId = req.user!.id;
+
+    // Read the pagination parameters from the query string
+    const pagination = getPagination(req.query);
+
+    const where: Prisma.CommunityWhereInput = {
+      deleted_at: null,
+      OR: [
+        { owner: userId },
+        { members: { some: { user: userId, deleted_at: null } } },
+      ],
+    };
+
+    // Get the communities where the user is the owner or a member
+    const [total, communities] = await Promise.all([
+      db.community.count({ where }),
+      db.community.findMany({
+        where,
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "asc" },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          visibility: true,
+          ownerId: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          created_at: true,
+          updated_at: true,
+        },
+      }),
+    ]);
+
+    // Prepare the response object
+    const response = {
+      status: true,
+      content: buildPage(communities, total, pagination),
+    };
+
+    // Return the success response
+    res.status(200).json(response);
+  })
+);
+
+// GET /v1/community/:id, the ID can also be a slug
+router.get(
+  "/:id",
+  optionalAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id: idOrSlug } = req.params;
+
+    const select = {
+      id: true,
+      name: true,
+      slug: true,
+      owner: true,
+      visibility: true,
+      created_at: true,
+      updated_at: true,
+      ownerId: {
+        select: {
+          id: true,
+          name: true,
         },
-        data: responseData,
+      },
+    } satisfies Prisma.CommunitySelect;
+
+    // Look the community up by its ID, then by its slug. A numeric slug can
+    // equal the ID of another community, the ID wins.
+    const community =
+      (await db.community.findFirst({
+        where: { id: idOrSlug, deleted_at: null },
+        select,
+      })) ??
+      (await db.community.findFirst({
+        where: { slug: idOrSlug, deleted_at: null },
+        select,
+      }));
+
+    if (!community) {
+      // Send clients holding a slug from before a rename to the current one,
+      // as long as they may see the community
+      const renamedCommunity = await findCommunityByOldSlug(idOrSlug);
+
+      if (
+        renamedCommunity &&
+        (await canViewCommunity(req.user?.id, renamedCommunity))
+      ) {
+        return res.redirect(
+          301,
+          `${req.baseUrl}/${encodeURIComponent(renamedCommunity.slug)}`
+        );
+      }
+
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Hide private communities from everyone but their members
+    if (!(await canViewCommunity(req.user?.id, community))) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Return the success response
+    const { owner, ...communityData } = community;
+    res.status(200).json({
+      status: true,
+      content: {
+        data: communityData,
       },
     });
-  } catch (error) {
-    // Return a generic error response for any errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
+  })
+);
+
+// PATCH /v1/community/:id
+router.patch(
+  "/:id",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate the request body against the schema
+    const validatedData = updateCommunitySchema.parse(req.body);
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id, deleted_at: null },
     });
-  }
-});
 
-// GET /v1/community/me/owner
-router.get("/me/owner", async (req: Request, res: Response) => {
-  try {
-    // Get the owner ID from the access token
-    const accessToken = req.headers.authorization?.split(" ")[1] || "";
-    const ownerId = getUserIdFromAccessToken(accessToken);
-
-    if (!ownerId) {
-      return res.status(401).json({
-        status: false,
-        errors: [
-          { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
-        ],
-      });
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.");
     }
 
-    // Get the communities owned by the user
-    const communities = await db.community.findMany({
-      where: {
-        owner: ownerId,
-      },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        owner: true,
-        created_at: true,
-        updated_at: true,
-      },
+    // Check if the user is allowed to edit the community
+    const canEditCommunity = await can(req.user!.id, id, "community:edit");
+
+    if (!canEditCommunity) {
+      throw new ForbiddenError();
+    }
+
+    // Update the community, a rename regenerates the slug and keeps the old one
+    const community = await db.$transaction(async (tx) => {
+      let slug = existingCommunity.slug;
+
+      if (validatedData.name) {
+        slug = await generateUniqueSlug(validatedData.name, id, tx);
+        await recordSlugChange(id, existingCommunity.slug, slug, tx);
+      }
+
+      const updatedCommunity = await tx.community.update({
+        where: { id },
+        data: {
+          name: validatedData.name,
+          slug,
+          visibility: validatedData.visibility,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: req.user!.id,
+          action: "community.update",
+          target: id,
+          community: id,
+          before: existingCommunity,
+          after: updatedCommunity,
+        },
+        tx
+      );
+
+      await publishCommunityEvent(
+        id,
+        "community.updated",
+        updatedCommunity,
+        tx
+      );
+
+      return updatedCommunity;
     });
 
     // Return the success response
-    return res.status(200).json({
+    res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: communities.length,
-          pages: 1,
-          page: 1,
-        },
-        data: communities,
+        data: community,
       },
     });
-  } catch (error) {
-    // Return a generic error response for any errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
+  })
+);
+
+// DELETE /v1/community/:id
+router.delete(
+  "/:id",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id, deleted_at: null },
     });
-  }
-});
 
-router.get("/me/member", async (req: Request, res: Response) => {
-  try {
-    // Get the user ID from the access token
-    const accessToken = req.headers.authorization?.split(" ")[1] || "";
-    const userId = getUserIdFromAccessToken(accessToken);
-
-    if (!userId) {
-      return res.status(401).json({
-        status: false,
-        errors: [
-          { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
-        ],
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Only the owner can delete the community
+    if (existingCommunity.owner !== req.user!.id) {
+      throw new ForbiddenError();
+    }
+
+    // Mark the community as deleted, everything that belongs to it is kept
+    // so it can be restored until it is purged
+    await db.$transaction([
+      db.community.update({
+        where: { id },
+        data: { deleted_at: new Date() },
+      }),
+      recordAudit({
+        actor: req.user!.id,
+        action: "community.delete",
+        target: id,
+        community: id,
+        before: existingCommunity,
+      }),
+    ]);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// POST /v1/community/:id/restore
+router.post(
+  "/:id/restore",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Check if the community exists, only its owner and its members with
+    // the community:edit permission can restore it
+    const existingCommunity = await db.community.findUnique({
+      where: { id },
+    });
+    const permissions = await getPermissions(req.user!.id, id, {
+      includeDeleted: true,
+    });
+
+    if (!existingCommunity || permissions.size === 0) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    if (!permissions.has("community:edit")) {
+      throw new ForbiddenError();
+    }
+
+    if (!existingCommunity.deleted_at) {
+      throw new ConflictError("The community is not deleted.", {
+        code: "NOT_DELETED",
       });
     }
 
-    // Get the communities where the user is the owner or a member
-    const communities = await db.community.findMany({
-      where: {
-        OR: [{ owner: userId }, { members: { some: { user: userId } } }],
+    assertRestorable(existingCommunity.deleted_at);
+
+    // Restore the community and record it in the audit log
+    const [community] = await db.$transaction([
+      db.community.update({
+        where: { id },
+        data: { deleted_at: null },
+      }),
+      recordAudit({
+        actor: req.user!.id,
+        action: "community.restore",
+        target: id,
+        community: id,
+        before: existingCommunity,
+        after: { ...existingCommunity, deleted_at: null },
+      }),
+    ]);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: community,
       },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        ownerId: {
-          select: {
-            id: true,
-            name: true,
-          },
+    });
+  })
+);
+
+// POST /v1/community/:id/transfer
+router.post(
+  "/:id/transfer",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate the request body against the schema
+    const validatedData = transferSchema.parse(req.body);
+
+    // Change the owner in a transaction so the checks and the update agree,
+    // throwing inside it rolls everything back
+    const community = await db.$transaction(async (tx) => {
+      const existingCommunity = await tx.community.findFirst({
+        where: { id, deleted_at: null },
+      });
+
+      if (!existingCommunity) {
+        throw new NotFoundError("Community not found.");
+      }
+
+      // Only the owner can hand the community over
+      if (existingCommunity.owner !== req.user!.id) {
+        throw new ForbiddenError();
+      }
+
+      // The new owner has to be a member of the community
+      const newOwner = await tx.member.findFirst({
+        where: { community: id, user: validatedData.user, deleted_at: null },
+      });
+
+      if (!newOwner) {
+        throw new NotFoundError("User is not a member of the community.", {
+          param: "user",
+        });
+      }
+
+      const updatedCommunity = await tx.community.update({
+        where: { id },
+        data: { owner: validatedData.user },
+      });
+
+      await recordAudit(
+        {
+          actor: req.user!.id,
+          action: "community.transfer",
+          target: id,
+          community: id,
+          before: existingCommunity,
+          after: updatedCommunity,
         },
-        created_at: true,
-        updated_at: true,
-      },
+        tx
+      );
+
+      await publishCommunityEvent(
+        id,
+        "community.updated",
+        updatedCommunity,
+        tx
+      );
+
+      // The previous owner stays on as an admin of the community
+      const adminRole = await getDefaultAdminRole(tx);
+      const previousOwner = await tx.member.findFirst({
+        where: {
+          community: id,
+          user: existingCommunity.owner,
+          deleted_at: null,
+        },
+      });
+
+      if (!previousOwner) {
+        const newMember = await tx.member.create({
+          data: {
+            id: Snowflake.generate(),
+            community: id,
+            user: existingCommunity.owner,
+            role: adminRole.id,
+          },
+        });
+
+        await recordAudit(
+          {
+            actor: req.user!.id,
+            action: "member.add",
+            target: newMember.id,
+            community: id,
+            after: newMember,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(id, "member.added", newMember, tx);
+      } else if (previousOwner.role !== adminRole.id) {
+        const changedMember = await tx.member.update({
+          where: { id: previousOwner.id },
+          data: { role: adminRole.id },
+        });
+
+        await recordAudit(
+          {
+            actor: req.user!.id,
+            action: "member.role_change",
+            target: previousOwner.id,
+            community: id,
+            before: previousOwner,
+            after: changedMember,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(
+          id,
+          "member.role_changed",
+          { ...changedMember, previous_role: previousOwner.role },
+          tx
+        );
+      }
+
+      return updatedCommunity;
     });
 
-    // Prepare the response object
-    const response = {
+    // Return the success response
+    res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: communities.length,
-          pages: 1,
-          page: 1,
-        },
-        data: communities,
+        data: community,
       },
-    };
-
-    // Return the success response
-    return res.status(200).json(response);
-  } catch (error) {
-    // Return a generic error response for any errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
     });
-  }
-});
-
-// Function to generate a slug from the name
-function generateSlug(name: string): string {
-  return name.toLowerCase().replace(/\s+/g, "-");
-}
-
-// Function to extract user ID from the access token
-function getUserIdFromAccessToken(accessToken: string): string | null {
-  try {
-    const decodedToken: any = jwt.verify(
-      accessToken,
-      process.env.JWT_SECRET as string
-    );
-    return decodedToken.id;
-  } catch (error) {
-    console.error("Error decoding access token:", error);
-    return null;
-  }
-}
+  })
+);
 
 export default router;
@@ -0,0 +1,35 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { buildOpenApiDocument } from "../utils/openapi";
+
+const router = express.Router();
+
+// The document only changes with the code, so build it once
+const openApiDocument = buildOpenApiDocument();
+
+// Page rendering the document with Redoc
+const docsPage = `<!DOCTYPE html>
+<html>
+  <head>
+    <title>The Internet Folks API</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <redoc spec-url="openapi.json"></redoc>
+    <script src="https://cdn.redoc.ly/redoc/latest/bundles/redoc.standalone.js"></script>
+  </body>
+</html>
+`;
+
+// GET /v1/openapi.json
+router.get("/openapi.json", (req: Request, res: Response) => {
+  res.status(200).json(openApiDocument);
+});
+
+// GET /v1/docs
+router.get("/docs", (req: Request, res: Response) => {
+  res.status(200).type("html").send(docsPage);
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import express from "express";
+import type { Request, Response } from "express";
+import type { CommunityEvent } from "@prisma/client";
+import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  asyncHandler,
+} from "../utils/errors";
+import { toCommunityEventPayload } from "../utils/communityEvents";
+import { subscribeToCommunityEvents } from "../utils/eventStream";
+
+const router = express.Router();
+
+// How often a comment is sent so proxies do not close an idle stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// How long clients wait before reconnecting after the stream dropped
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+// Format an event the way EventSource parses it, with its sequence number as
+// the SSE id
+function formatEvent(event: CommunityEvent): string {
+  const payload = JSON.stringify(toCommunityEventPayload(event));
+  return `id: ${event.seq}\nevent: ${event.event}\ndata: ${payload}\n\n`;
+}
+
+// GET /v1/community/:id/events
+router.get(
+  "/:id/events",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    // The client may go away while the checks below are running, before the
+    // stream is set up to notice it
+    let clientGone = false;
+    res.on("close", () => {
+      clientGone = true;
+    });
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id, deleted_at: null },
+    });
+
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Only members can follow the events of a community
+    const member = await db.member.findFirst({
+      where: { community: id, user: userId, deleted_at: null },
+    });
+
+    if (!member && existingCommunity.owner !== userId) {
+      throw new ForbiddenError(
+        "Only members can follow the events of this community."
+      );
+    }
+
+    // Resume after the last event the client received, or start with the
+    // next event published
+    const lastEventId = req.get("Last-Event-ID");
+
+    if (lastEventId !== undefined && !/^\d{1,15}$/.test(lastEventId)) {
+      throw new ValidationError("Last-Event-ID is not a valid event ID.", {
+        param: "Last-Event-ID",
+      });
+    }
+
+    const newestEvent = lastEventId
+      ? null
+      : await db.communityEvent.findFirst({
+          where: { community: id },
+          orderBy: { seq: "desc" },
+        });
+
+    // Nobody is left to stream to
+    if (clientGone || req.socket.destroyed) {
+      return;
+    }
+
+    // Open the stream
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Keep reverse proxies such as nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const unsubscribe = subscribeToCommunityEvents({
+      community: id,
+      cursor: lastEventId ? Number(lastEventId) : newestEvent?.seq ?? 0,
+      send: (event) => {
+        res.write(formatEvent(event));
+
+        // A member who was removed stops receiving events
+        if (
+          event.event === "member.removed" &&
+          JSON.parse(event.data).user === userId
+        ) {
+          closeStream();
+        }
+      },
+      close: () => closeStream(),
+    });
+
+    // Stop the heartbeat and the subscription before ending the stream, so
+    // nothing is written after it
+    function closeStream() {
+      clearInterval(heartbeat);
+      unsubscribe();
+
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+
+    // The client went away
+    res.on("close", closeStream);
+  })
+);
+
+export default router;
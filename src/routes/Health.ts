@@ -0,0 +1,40 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { db } from "../utils/db.server";
+import { isShuttingDown } from "../utils/shutdown";
+
+const router = express.Router();
+
+// GET /healthz, the process is up
+router.get("/healthz", (req: Request, res: Response) => {
+  res.status(200).json({
+    status: true,
+  });
+});
+
+// GET /readyz, the process can serve requests
+router.get("/readyz", async (req: Request, res: Response) => {
+  // Take the process out of rotation while it drains
+  if (isShuttingDown()) {
+    return res.status(503).json({
+      status: false,
+      errors: [{ message: "Shutting down.", code: "NOT_READY" }],
+    });
+  }
+
+  // Check that the database answers
+  try {
+    await db.$queryRaw`SELECT 1`;
+  } catch (error) {
+    return res.status(503).json({
+      status: false,
+      errors: [{ message: "Database unavailable.", code: "NOT_READY" }],
+    });
+  }
+
+  res.status(200).json({
+    status: true,
+  });
+});
+
+export default router;
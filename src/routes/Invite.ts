@@ -0,0 +1,347 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Invite, Prisma } from "@prisma/client";
+import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  ApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  asyncHandler,
+} from "../utils/errors";
+import {
+  getPermissions,
+  holdsAll,
+  parsePermissions,
+} from "../utils/permissions";
+import { memberSelect, toMemberResponse } from "../utils/members";
+import { generateShareableCode } from "../utils/tokens";
+import { recordAudit } from "../utils/audit";
+import { publishCommunityEvent } from "../utils/communityEvents";
+import { assertEmailVerified } from "../utils/emailVerification";
+import {
+  buildPage,
+  getPagination,
+  getPaginationArgs,
+} from "../utils/pagination";
+
+const router = express.Router();
+
+// Define the request body schema
+export const inviteSchema = z.object({
+  role: z.string(),
+  email: z.string().email().optional(),
+  max_uses: z.number().int().positive().optional(),
+  expires_at: z.coerce
+    .date()
+    .refine((date) => date > new Date(), {
+      message: "Expiry should be in the future.",
+    })
+    .optional(),
+});
+
+// Fields of an invite returned by the API
+const inviteSelect = {
+  id: true,
+  community: true,
+  code: true,
+  email: true,
+  max_uses: true,
+  uses: true,
+  expires_at: true,
+  created_by: true,
+  created_at: true,
+  role_fk: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+// Function to check whether an invite can still be accepted
+function isInviteUsable(
+  invite: Pick<Invite, "revoked_at" | "expires_at" | "max_uses" | "uses">
+): boolean {
+  if (invite.revoked_at) {
+    return false;
+  }
+
+  if (invite.expires_at && invite.expires_at <= new Date()) {
+    return false;
+  }
+
+  return invite.max_uses === null || invite.uses < invite.max_uses;
+}
+
+// POST /v1/community/:id/invites
+router.post(
+  "/:id/invites",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate the request body against the schema
+    const validatedData = inviteSchema.parse(req.body);
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id, deleted_at: null },
+    });
+
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Check if the role exists
+    const existingRole = await db.role.findUnique({
+      where: { id: validatedData.role },
+    });
+
+    if (!existingRole) {
+      throw new NotFoundError("Role not found.", { param: "role" });
+    }
+
+    // Inviting requires the member:add permission, and users other than the
+    // owner can only preset roles that grant nothing they do not hold
+    const userId = req.user!.id;
+    const permissions = await getPermissions(userId, id);
+    const canInvite =
+      permissions.has("member:add") &&
+      (existingCommunity.owner === userId ||
+        holdsAll(permissions, parsePermissions(existingRole.permissions)));
+
+    if (!canInvite) {
+      throw new ForbiddenError();
+    }
+
+    // Create the invite, an invite for a specific email is single use
+    const invite = await db.invite.create({
+      data: {
+        id: Snowflake.generate(),
+        community: id,
+        code: generateShareableCode(),
+        email: validatedData.email?.toLowerCase(),
+        role: validatedData.role,
+        max_uses: validatedData.max_uses ?? (validatedData.email ? 1 : null),
+        expires_at: validatedData.expires_at,
+        created_by: userId,
+      },
+      select: inviteSelect,
+    });
+
+    // Return the success response
+    res.status(201).json({
+      status: true,
+      content: {
+        data: invite,
+      },
+    });
+  })
+);
+
+// GET /v1/community/:id/invites
+router.get(
+  "/:id/invites",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Check if the user is allowed to manage the invites of the community
+    const permissions = await getPermissions(req.user!.id, id);
+
+    if (!permissions.has("member:add")) {
+      throw new ForbiddenError();
+    }
+
+    // Read the pagination parameters from the query string
+    const pagination = getPagination(req.query);
+
+    // Get the invites that were not revoked, have not expired yet and were not
+    // used up
+    const where: Prisma.InviteWhereInput = {
+      community: id,
+      revoked_at: null,
+      AND: [
+        { OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }] },
+        {
+          OR: [{ max_uses: null }, { uses: { lt: db.invite.fields.max_uses } }],
+        },
+      ],
+    };
+
+    const [total, invites] = await Promise.all([
+      db.invite.count({ where }),
+      db.invite.findMany({
+        where,
+        ...getPaginationArgs(pagination),
+        select: inviteSelect,
+        orderBy: { id: "desc" },
+      }),
+    ]);
+
+    // Return the success response
+    const { meta, data } = buildPage(invites, total, pagination);
+
+    res.status(200).json({
+      status: true,
+      content: {
+        meta,
+        data,
+      },
+    });
+  })
+);
+
+// DELETE /v1/community/:id/invites/:inviteId
+router.delete(
+  "/:id/invites/:inviteId",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, inviteId } = req.params;
+
+    // Check if the invite exists in the community
+    const existingInvite = await db.invite.findFirst({
+      where: { id: inviteId, community: id, revoked_at: null },
+    });
+
+    if (!existingInvite) {
+      throw new NotFoundError("Invite not found.");
+    }
+
+    // Check if the user is allowed to manage the invites of the community
+    const permissions = await getPermissions(req.user!.id, id);
+
+    if (!permissions.has("member:add")) {
+      throw new ForbiddenError();
+    }
+
+    // Revoke the invite
+    await db.invite.update({
+      where: { id: inviteId },
+      data: { revoked_at: new Date() },
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// POST /v1/community/invites/:code/accept
+router.post(
+  "/invites/:code/accept",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code } = req.params;
+    const userId = req.user!.id;
+
+    // Check if the invite exists, was not revoked and its community was not
+    // deleted
+    const invite = await db.invite.findUnique({
+      where: { code },
+      include: { community_fk: { select: { deleted_at: true } } },
+    });
+
+    if (!invite || invite.revoked_at || invite.community_fk.deleted_at) {
+      throw new NotFoundError("Invite not found.");
+    }
+
+    // Check if the invite expired or was used up
+    if (!isInviteUsable(invite)) {
+      throw new ApiError(410, "INVITE_EXPIRED", "This invite has expired.");
+    }
+
+    // Check if the invite was meant for the signed in user
+    const user = await db.user.findUnique({ where: { id: userId } });
+
+    if (!user || (invite.email && invite.email !== user.email.toLowerCase())) {
+      throw new ForbiddenError(
+        "This invite was sent to a different email address."
+      );
+    }
+
+    // Only users with a verified email address can become members
+    await assertEmailVerified(
+      userId,
+      "Verify your email address to join communities."
+    );
+
+    // Check if the user is already a member of the community
+    const existingMember = await db.member.findFirst({
+      where: { community: invite.community, user: userId, deleted_at: null },
+    });
+
+    if (existingMember) {
+      throw new ConflictError("User is already added in the community.");
+    }
+
+    // Use up the invite and add the member together
+    const newMember = await db.$transaction(async (tx) => {
+      // Only count the use if nobody else used the invite in the meantime
+      const { count } = await tx.invite.updateMany({
+        where: { id: invite.id, uses: invite.uses, revoked_at: null },
+        data: { uses: invite.uses + 1 },
+      });
+
+      if (count === 0) {
+        throw new ConflictError(
+          "The invite was used concurrently, please try again.",
+          { code: "CONFLICT" }
+        );
+      }
+
+      const createdMember = await tx.member.create({
+        data: {
+          id: Snowflake.generate(),
+          community: invite.community,
+          user: userId,
+          role: invite.role,
+        },
+        select: memberSelect,
+      });
+
+      const memberData = {
+        id: createdMember.id,
+        community: invite.community,
+        user: userId,
+        role: invite.role,
+        created_at: createdMember.created_at,
+      };
+
+      await recordAudit(
+        {
+          actor: userId,
+          action: "member.add",
+          target: createdMember.id,
+          community: invite.community,
+          after: { ...memberData, invite: invite.id },
+        },
+        tx
+      );
+
+      await publishCommunityEvent(
+        invite.community,
+        "member.added",
+        memberData,
+        tx
+      );
+
+      return createdMember;
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: toMemberResponse(newMember),
+      },
+    });
+  })
+);
+
+export default router;
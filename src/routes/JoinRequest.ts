@@ -0,0 +1,297 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  asyncHandler,
+} from "../utils/errors";
+import { can, getDefaultMemberRole } from "../utils/permissions";
+import { memberSelect, toMemberResponse } from "../utils/members";
+import { canViewCommunity } from "../utils/visibility";
+import { recordAudit } from "../utils/audit";
+import { publishCommunityEvent } from "../utils/communityEvents";
+import { assertEmailVerified } from "../utils/emailVerification";
+import {
+  buildPage,
+  getPagination,
+  getPaginationArgs,
+} from "../utils/pagination";
+
+const router = express.Router();
+
+// Fields of a join request returned by the API
+const joinRequestSelect = {
+  id: true,
+  community: true,
+  user_fk: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  status: true,
+  decided_by: true,
+  decided_at: true,
+  created_at: true,
+};
+
+// POST /v1/community/:id/join
+router.post(
+  "/:id/join",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    // Check if the community exists and is visible to the user
+    const community = await db.community.findFirst({
+      where: { id, deleted_at: null },
+    });
+
+    if (!community || !(await canViewCommunity(userId, community))) {
+      throw new NotFoundError("Community not found.");
+    }
+
+    // Check if the user is already part of the community
+    const existingMember = await db.member.findFirst({
+      where: { community: id, user: userId, deleted_at: null },
+    });
+
+    if (existingMember || community.owner === userId) {
+      throw new ConflictError("User is already added in the community.");
+    }
+
+    // Private communities can only be joined through an invite
+    if (community.visibility === "private") {
+      throw new ForbiddenError(
+        "This community can only be joined by invitation."
+      );
+    }
+
+    // Only users with a verified email address can become members
+    await assertEmailVerified(
+      userId,
+      "Verify your email address to join communities."
+    );
+
+    // Public communities let the user in right away
+    if (community.visibility === "public") {
+      const memberId = Snowflake.generate();
+
+      const newMember = await db.$transaction(async (tx) => {
+        const role = await getDefaultMemberRole(tx);
+
+        const createdMember = await tx.member.create({
+          data: {
+            id: memberId,
+            community: id,
+            user: userId,
+            role: role.id,
+          },
+          select: memberSelect,
+        });
+
+        const memberData = {
+          id: memberId,
+          community: id,
+          user: userId,
+          role: role.id,
+          created_at: createdMember.created_at,
+        };
+
+        await recordAudit(
+          {
+            actor: userId,
+            action: "member.add",
+            target: memberId,
+            community: id,
+            after: memberData,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(id, "member.added", memberData, tx);
+
+        return createdMember;
+      });
+
+      return res.status(200).json({
+        status: true,
+        content: {
+          data: toMemberResponse(newMember),
+        },
+      });
+    }
+
+    // Otherwise file a join request, unless one is already waiting
+    const pendingRequest = await db.joinRequest.findFirst({
+      where: { community: id, user: userId, status: "pending" },
+    });
+
+    if (pendingRequest) {
+      throw new ConflictError(
+        "You have already requested to join this community."
+      );
+    }
+
+    const joinRequest = await db.joinRequest.create({
+      data: {
+        id: Snowflake.generate(),
+        community: id,
+        user: userId,
+      },
+      select: joinRequestSelect,
+    });
+
+    res.status(202).json({
+      status: true,
+      content: {
+        data: joinRequest,
+      },
+    });
+  })
+);
+
+// GET /v1/community/:id/join-requests
+router.get(
+  "/:id/join-requests",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Check if the user is allowed to review join requests
+    const canReview = await can(req.user!.id, id, "member:add");
+
+    if (!canReview) {
+      throw new ForbiddenError();
+    }
+
+    // Read the pagination parameters from the query string
+    const pagination = getPagination(req.query);
+
+    const where = { community: id, status: "pending" };
+
+    // Get the requests waiting for a decision
+    const [total, joinRequests] = await Promise.all([
+      db.joinRequest.count({ where }),
+      db.joinRequest.findMany({
+        where,
+        select: joinRequestSelect,
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "asc" },
+      }),
+    ]);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: buildPage(joinRequests, total, pagination),
+    });
+  })
+);
+
+// Build the handler that approves or rejects a join request
+function decideJoinRequest(decision: "approve" | "reject") {
+  return asyncHandler(async (req: Request, res: Response) => {
+    const { id, requestId } = req.params;
+    const userId = req.user!.id;
+
+    // Check if the join request is still waiting for a decision
+    const joinRequest = await db.joinRequest.findFirst({
+      where: { id: requestId, community: id, status: "pending" },
+    });
+
+    if (!joinRequest) {
+      throw new NotFoundError("Join request not found.");
+    }
+
+    // Check if the user is allowed to review join requests
+    const canReview = await can(userId, id, "member:add");
+
+    if (!canReview) {
+      throw new ForbiddenError();
+    }
+
+    // Only users with a verified email address can become members
+    if (decision === "approve") {
+      await assertEmailVerified(
+        joinRequest.user,
+        "Only users with a verified email address can be added as members."
+      );
+    }
+
+    // Record the decision and add the member in one go
+    const updatedRequest = await db.$transaction(async (tx) => {
+      const role =
+        decision === "approve" ? await getDefaultMemberRole(tx) : null;
+
+      if (role) {
+        const existingMember = await tx.member.findFirst({
+          where: { community: id, user: joinRequest.user, deleted_at: null },
+        });
+
+        if (!existingMember) {
+          const newMember = await tx.member.create({
+            data: {
+              id: Snowflake.generate(),
+              community: id,
+              user: joinRequest.user,
+              role: role.id,
+            },
+          });
+
+          await recordAudit(
+            {
+              actor: userId,
+              action: "member.add",
+              target: newMember.id,
+              community: id,
+              after: newMember,
+            },
+            tx
+          );
+
+          await publishCommunityEvent(id, "member.added", newMember, tx);
+        }
+      }
+
+      return tx.joinRequest.update({
+        where: { id: requestId },
+        data: {
+          status: role ? "approved" : "rejected",
+          decided_by: userId,
+          decided_at: new Date(),
+        },
+        select: joinRequestSelect,
+      });
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: updatedRequest,
+      },
+    });
+  });
+}
+
+// POST /v1/community/:id/join-requests/:requestId/approve
+router.post(
+  "/:id/join-requests/:requestId/approve",
+  requireAuth,
+  decideJoinRequest("approve")
+);
+
+// POST /v1/community/:id/join-requests/:requestId/reject
+router.post(
+  "/:id/join-requests/:requestId/reject",
+  requireAuth,
+  decideJoinRequest("reject")
+);
+
+export default router;
@@ -1,277 +1,792 @@
 import express from "express";
 import type { Request, Response } from "express";
 import { z } from "zod";
-import jwt from "jsonwebtoken";
+import { Snowflake } from "@theinternetfolks/snowflake";
 import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  BatchError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  asyncHandler,
+} from "../utils/errors";
+import {
+  getPermissions,
+  holdsAll,
+  parsePermissions,
+} from "../utils/permissions";
+import { memberSelect, toMemberResponse } from "../utils/members";
+import { recordAudit } from "../utils/audit";
+import { publishCommunityEvent } from "../utils/communityEvents";
+import { assertEmailVerified } from "../utils/emailVerification";
+import { config } from "../utils/config";
+import { assertRestorable } from "../utils/softDelete";
 
 const router = express.Router();
 
 // Define the request body schema
-const addMemberSchema = z.object({
+export const addMemberSchema = z.object({
   community: z.string(),
   user: z.string(),
   role: z.string(),
 });
 
-router.post("/", async (req: Request, res: Response) => {
-  try {
+// Define the request body schema
+export const updateMemberSchema = z.object({
+  role: z.string(),
+});
+
+// Most entries a single bulk request can hold
+const MAX_BULK_ENTRIES = 100;
+
+// Define the request body schema
+export const bulkAddMembersSchema = z.object({
+  community: z.string(),
+  members: z
+    .array(z.object({ user: z.string(), role: z.string() }))
+    .min(1)
+    .max(MAX_BULK_ENTRIES),
+});
+
+// Define the request body schema
+export const bulkRemoveMembersSchema = z.object({
+  community: z.string(),
+  members: z
+    .array(z.object({ user: z.string() }))
+    .min(1)
+    .max(MAX_BULK_ENTRIES),
+});
+
+// Define the query string schema of the bulk endpoints
+export const bulkQuerySchema = z.object({
+  // Apply no entry at all unless every entry succeeds
+  atomic: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+type BulkAddStatus =
+  | "created"
+  | "already_member"
+  | "duplicate"
+  | "user_not_found"
+  | "role_not_found"
+  | "not_allowed"
+  | "email_not_verified";
+
+type BulkRemoveStatus = "removed" | "not_member" | "duplicate" | "not_allowed";
+
+// Turn the failed entries of a bulk request into the errors of a BatchError
+function toBatchError(
+  results: { status: string }[],
+  succeeded: string
+): BatchError {
+  const details = results.flatMap((result, index) =>
+    result.status === succeeded
+      ? []
+      : [
+          {
+            param: `members.${index}`,
+            message: `Entry failed with status ${result.status}.`,
+            code: result.status.toUpperCase(),
+          },
+        ]
+  );
+
+  return new BatchError("Some entries failed, nothing was applied.", details);
+}
+
+// Summarize the results of a bulk request
+function toBulkMeta(results: { status: string }[], succeeded: string) {
+  const succeededCount = results.filter(
+    (result) => result.status === succeeded
+  ).length;
+
+  return {
+    total: results.length,
+    succeeded: succeededCount,
+    failed: results.length - succeededCount,
+  };
+}
+
+router.post(
+  "/",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
     // Validate the request body
     const requestBody = addMemberSchema.parse(req.body);
 
     // Extract the parameters from the validated request body
     const { community, user, role } = requestBody;
 
-    // Check if the user is the community admin
-    const accessToken = req.headers.authorization?.split(" ")[1] || "";
-    const userId = getUserIdFromAccessToken(accessToken);
-    const isAdmin = await checkIfUserIsCommunityAdmin(userId, community);
+    // Check if the user is allowed to add members to the community
+    const permissions = await getPermissions(req.user!.id, community);
 
-    if (!isAdmin) {
-      return res.status(403).json({
-        status: false,
-        errors: [
-          {
-            message: "You are not authorized to perform this action.",
-            code: "NOT_ALLOWED_ACCESS",
-          },
-        ],
-      });
+    if (!permissions.has("member:add")) {
+      throw new ForbiddenError();
     }
 
     // Check if the community exists
-    const existingCommunity = await db.community.findUnique({
-      where: { id: community },
+    const existingCommunity = await db.community.findFirst({
+      where: { id: community, deleted_at: null },
     });
 
     if (!existingCommunity) {
-      return res.status(404).json({
-        status: false,
-        errors: [
-          {
-            param: "community",
-            message: "Community not found.",
-            code: "RESOURCE_NOT_FOUND",
-          },
-        ],
-      });
+      throw new NotFoundError("Community not found.", { param: "community" });
     }
 
     // Check if the role exists
     const existingRole = await db.role.findUnique({ where: { id: role } });
 
     if (!existingRole) {
-      return res.status(404).json({
-        status: false,
-        errors: [
-          {
-            param: "role",
-            message: "Role not found.",
-            code: "RESOURCE_NOT_FOUND",
-          },
-        ],
-      });
+      throw new NotFoundError("Role not found.", { param: "role" });
+    }
+
+    // Users other than the owner can only assign roles that grant nothing
+    // they do not hold themselves
+    const canAssignRole =
+      existingCommunity.owner === req.user!.id ||
+      holdsAll(permissions, parsePermissions(existingRole.permissions));
+
+    if (!canAssignRole) {
+      throw new ForbiddenError();
     }
 
     // Check if the user exists
     const existingUser = await db.user.findUnique({ where: { id: user } });
 
     if (!existingUser) {
-      return res.status(404).json({
-        status: false,
-        errors: [
-          {
-            param: "user",
-            message: "User not found.",
-            code: "RESOURCE_NOT_FOUND",
-          },
-        ],
-      });
+      throw new NotFoundError("User not found.", { param: "user" });
     }
 
+    // Only users with a verified email address can become members
+    await assertEmailVerified(
+      user,
+      "Only users with a verified email address can be added as members.",
+      "user"
+    );
+
     // Check if the user is already a member of the community
     const existingMember = await db.member.findFirst({
       where: {
         community: community,
         user: user,
+        deleted_at: null,
       },
     });
 
     if (existingMember) {
-      return res.status(400).json({
-        status: false,
-        errors: [
-          {
-            message: "User is already added in the community.",
-            code: "RESOURCE_EXISTS",
-          },
-        ],
-      });
+      throw new ConflictError("User is already added in the community.");
     }
 
-    // Create the new member
-    const newMember = await db.member.create({
-      data: {
-        community: community,
-        user: user,
-        role: role,
-      },
-      select: {
-        id: true,
-        community: true,
-        user: true,
-        role: true,
-        created_at: true,
-      },
+    // Create the new member, Snowflake IDs keep members sortable by creation
+    const newMember = await db.$transaction(async (tx) => {
+      const createdMember = await tx.member.create({
+        data: {
+          id: Snowflake.generate(),
+          community: community,
+          user: user,
+          role: role,
+        },
+        select: {
+          id: true,
+          community: true,
+          user: true,
+          role: true,
+          created_at: true,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: req.user!.id,
+          action: "member.add",
+          target: createdMember.id,
+          community,
+          after: createdMember,
+        },
+        tx
+      );
+
+      await publishCommunityEvent(community, "member.added", createdMember, tx);
+
+      return createdMember;
     });
 
     // Return the success response
-    return res.status(200).json({
+    res.status(200).json({
       status: true,
       content: {
         data: newMember,
       },
     });
-  } catch (error) {
-    // Handle validation errors
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        status: false,
-        errors: error.errors.map((err) => ({
-          message: err.message,
-          code: "VALIDATION_ERROR",
-          path: err.path.join("."),
-        })),
-      });
+  })
+);
+
+// POST /v1/member/bulk
+router.post(
+  "/bulk",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body and query string
+    const { community, members } = bulkAddMembersSchema.parse(req.body);
+    const { atomic } = bulkQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id: community, deleted_at: null },
+    });
+
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.", { param: "community" });
     }
 
-    // Return a generic error response for any other errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        {
-          message: "Internal Server Error",
-          code: "INTERNAL_SERVER_ERROR",
+    // Check if the user is allowed to add members to the community
+    const permissions = await getPermissions(userId, community);
+
+    if (!permissions.has("member:add")) {
+      throw new ForbiddenError();
+    }
+
+    // Look every user, role and membership up at once
+    const userIds = members.map((entry) => entry.user);
+    const [users, roles, existingMembers] = await Promise.all([
+      db.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email_verified_at: true },
+      }),
+      db.role.findMany({
+        where: { id: { in: members.map((entry) => entry.role) } },
+        select: { id: true, permissions: true },
+      }),
+      db.member.findMany({
+        where: { community, user: { in: userIds }, deleted_at: null },
+        select: { user: true },
+      }),
+    ]);
+
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const rolesById = new Map(roles.map((role) => [role.id, role]));
+    const memberIds = new Set(existingMembers.map((member) => member.user));
+    const isOwner = userId === existingCommunity.owner;
+    const seenUserIds = new Set<string>();
+
+    // Decide the outcome of every entry before writing anything, users other
+    // than the owner can only assign roles that grant nothing they do not hold
+    const results = members.map((entry) => {
+      const role = rolesById.get(entry.role);
+      const user = usersById.get(entry.user);
+      let status: BulkAddStatus = "created";
+
+      if (seenUserIds.has(entry.user)) {
+        status = "duplicate";
+      } else if (!user) {
+        status = "user_not_found";
+      } else if (!role) {
+        status = "role_not_found";
+      } else if (
+        !isOwner &&
+        !holdsAll(permissions, parsePermissions(role.permissions))
+      ) {
+        status = "not_allowed";
+      } else if (memberIds.has(entry.user)) {
+        status = "already_member";
+      } else if (config.requireVerifiedEmail && !user.email_verified_at) {
+        status = "email_not_verified";
+      }
+
+      seenUserIds.add(entry.user);
+
+      return {
+        user: entry.user,
+        role: entry.role,
+        status,
+        member: null as string | null,
+      };
+    });
+
+    if (atomic && results.some((result) => result.status !== "created")) {
+      throw toBatchError(results, "created");
+    }
+
+    // Create the members and their audit events in one transaction
+    await db.$transaction(async (tx) => {
+      // Check the memberships again, another request may have added some of
+      // the users since they were looked up
+      const addedMeanwhile = await tx.member.findMany({
+        where: {
+          community,
+          user: {
+            in: results
+              .filter((result) => result.status === "created")
+              .map((result) => result.user),
+          },
+          deleted_at: null,
         },
-      ],
+        select: { user: true },
+      });
+      const addedUserIds = new Set(addedMeanwhile.map((member) => member.user));
+
+      for (const result of results) {
+        if (result.status === "created" && addedUserIds.has(result.user)) {
+          result.status = "already_member";
+        }
+      }
+
+      if (atomic && addedUserIds.size > 0) {
+        throw toBatchError(results, "created");
+      }
+
+      for (const result of results) {
+        if (result.status !== "created") {
+          continue;
+        }
+
+        const newMember = await tx.member.create({
+          data: {
+            id: Snowflake.generate(),
+            community,
+            user: result.user,
+            role: result.role,
+          },
+        });
+
+        await recordAudit(
+          {
+            actor: userId,
+            action: "member.add",
+            target: newMember.id,
+            community,
+            after: newMember,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(community, "member.added", newMember, tx);
+
+        result.member = newMember.id;
+      }
     });
-  }
-});
 
-function getUserIdFromAccessToken(accessToken: string) {
-  try {
-    const decodedToken: any = jwt.verify(
-      accessToken,
-      process.env.JWT_SECRET as string
+    // Return the outcome of every entry
+    res.status(200).json({
+      status: true,
+      content: {
+        meta: toBulkMeta(results, "created"),
+        data: results,
+      },
+    });
+  })
+);
+
+// DELETE /v1/member/bulk
+router.delete(
+  "/bulk",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body and query string
+    const { community, members } = bulkRemoveMembersSchema.parse(req.body);
+    const { atomic } = bulkQuerySchema.parse(req.query);
+    const userId = req.user!.id;
+
+    // Check if the community exists
+    const existingCommunity = await db.community.findFirst({
+      where: { id: community, deleted_at: null },
+    });
+
+    if (!existingCommunity) {
+      throw new NotFoundError("Community not found.", { param: "community" });
+    }
+
+    // Check if the user is allowed to remove members from the community
+    const permissions = await getPermissions(userId, community);
+
+    if (!permissions.has("member:remove")) {
+      throw new ForbiddenError();
+    }
+
+    // Look every membership up at once
+    const existingMembers = await db.member.findMany({
+      where: {
+        community,
+        user: { in: members.map((entry) => entry.user) },
+        deleted_at: null,
+      },
+      include: { role_fk: { select: { permissions: true } } },
+    });
+
+    const membersByUser = new Map(
+      existingMembers.map((member) => [member.user, member])
     );
-    return decodedToken.id;
-  } catch (error) {
-    return null;
-  }
-}
+    const isOwner = userId === existingCommunity.owner;
+    const seenUserIds = new Set<string>();
+
+    // Decide the outcome of every entry, the owner cannot be removed and
+    // others can only remove members whose role grants nothing they lack
+    const results = members.map((entry) => {
+      const member = membersByUser.get(entry.user);
+      let status: BulkRemoveStatus = "removed";
+
+      if (seenUserIds.has(entry.user)) {
+        status = "duplicate";
+      } else if (!member) {
+        status = "not_member";
+      } else if (
+        entry.user === existingCommunity.owner ||
+        (!isOwner &&
+          !holdsAll(permissions, parsePermissions(member.role_fk.permissions)))
+      ) {
+        status = "not_allowed";
+      }
+
+      seenUserIds.add(entry.user);
+
+      return { user: entry.user, status, member: member?.id ?? null };
+    });
 
-async function checkIfUserIsCommunityAdmin(
-  userId: string | null,
-  communityId: string
-): Promise<boolean> {
-  if (!userId) {
-    return false;
-  }
-  // Retrieve the community from the database
-  const community = await db.community.findUnique({
-    where: { id: communityId },
-  });
-
-  // Check if the community exists and if the user is the admin
-  if (community && community.owner === userId) {
-    return true;
-  }
-
-  return false;
-}
+    if (atomic && results.some((result) => result.status !== "removed")) {
+      throw toBatchError(results, "removed");
+    }
+
+    // Remove the members and record it in one transaction, removed members
+    // can be restored until they are purged
+    await db.$transaction(async (tx) => {
+      for (const result of results) {
+        if (result.status !== "removed") {
+          continue;
+        }
 
-router.delete("/:id", async (req: Request, res: Response) => {
-  try {
+        const { role_fk, ...memberData } = membersByUser.get(result.user)!;
+
+        await tx.member.update({
+          where: { id: memberData.id },
+          data: { deleted_at: new Date() },
+        });
+
+        await recordAudit(
+          {
+            actor: userId,
+            action: "member.remove",
+            target: memberData.id,
+            community,
+            before: memberData,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(
+          community,
+          "member.removed",
+          memberData,
+          tx
+        );
+      }
+    });
+
+    // Return the outcome of every entry
+    res.status(200).json({
+      status: true,
+      content: {
+        meta: toBulkMeta(results, "removed"),
+        data: results,
+      },
+    });
+  })
+);
+
+router.patch(
+  "/:id",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
     // Get the member ID from the request parameters
     const memberId = req.params.id;
 
+    // Validate the request body
+    const { role } = updateMemberSchema.parse(req.body);
+
     // Check if the member exists in the database
-    const existingMember = await db.member.findUnique({
-      where: { id: memberId },
+    const existingMember = await db.member.findFirst({
+      where: {
+        id: memberId,
+        deleted_at: null,
+        community_fk: { deleted_at: null },
+      },
+      include: {
+        community_fk: { select: { owner: true } },
+        role_fk: { select: { permissions: true } },
+      },
     });
 
     if (!existingMember) {
-      return res.status(404).json({
-        status: false,
-        errors: [{ message: "Member not found.", code: "RESOURCE_NOT_FOUND" }],
-      });
+      throw new NotFoundError("Member not found.");
     }
 
-    // Get the access token from the authorization header
-    const accessToken = req.headers.authorization?.split(" ")[1] || "";
+    // Check if the role exists
+    const existingRole = await db.role.findUnique({ where: { id: role } });
 
-    // Check if the user is a community admin or moderator
-    const isAdminOrModerator =
-      checkIfUserIsCommunityAdminOrModerator(accessToken);
+    if (!existingRole) {
+      throw new NotFoundError("Role not found.", { param: "role" });
+    }
 
-    if (!isAdminOrModerator) {
-      return res.status(403).json({
-        status: false,
-        errors: [
-          {
-            message: "You are not authorized to perform this action.",
-            code: "NOT_ALLOWED_ACCESS",
-          },
-        ],
-      });
+    // The owner cannot be demoted inside their own community
+    if (existingMember.user === existingMember.community_fk.owner) {
+      throw new ForbiddenError(
+        "The role of the community owner cannot be changed."
+      );
     }
 
-    // Remove the member from the database
-    await db.member.delete({ where: { id: memberId } });
+    // Get the permissions of the user in the member's community
+    const userId = req.user!.id;
+    const permissions = await getPermissions(userId, existingMember.community);
+
+    // Users other than the owner need the role:assign permission and can only
+    // move members between roles that grant nothing they do not hold themselves
+    const isOwner = userId === existingMember.community_fk.owner;
+    const canAssignRole =
+      permissions.has("role:assign") &&
+      (isOwner ||
+        (holdsAll(
+          permissions,
+          parsePermissions(existingMember.role_fk.permissions)
+        ) &&
+          holdsAll(permissions, parsePermissions(existingRole.permissions))));
+
+    if (!canAssignRole) {
+      throw new ForbiddenError();
+    }
+
+    // Change the role of the member, record it in the audit log and notify
+    // the webhooks of the community
+    const { community_fk, role_fk, ...memberData } = existingMember;
+
+    const updatedMember = await db.$transaction(async (tx) => {
+      const changedMember = await tx.member.update({
+        where: { id: memberId },
+        data: { role },
+        select: memberSelect,
+      });
+
+      await recordAudit(
+        {
+          actor: userId,
+          action: "member.role_change",
+          target: memberId,
+          community: existingMember.community,
+          before: memberData,
+          after: { ...memberData, role },
+        },
+        tx
+      );
+
+      await publishCommunityEvent(
+        existingMember.community,
+        "member.role_changed",
+        { ...memberData, role, previous_role: memberData.role },
+        tx
+      );
+
+      return changedMember;
+    });
 
     // Return the success response
-    return res.status(200).json({
+    res.status(200).json({
       status: true,
+      content: {
+        data: toMemberResponse(updatedMember),
+      },
     });
-  } catch (error) {
-    // Return a generic error response for any errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
+  })
+);
+
+router.delete(
+  "/:id",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Get the member ID from the request parameters
+    const memberId = req.params.id;
+
+    // Check if the member exists in the database
+    const existingMember = await db.member.findFirst({
+      where: {
+        id: memberId,
+        deleted_at: null,
+        community_fk: { deleted_at: null },
+      },
+      include: {
+        community_fk: { select: { owner: true } },
+        role_fk: { select: { permissions: true } },
+      },
     });
-  }
-});
 
-async function checkIfUserIsCommunityAdminOrModerator(accessToken: string) {
-  // Get the user ID from the access token
-  const userId = getUserIdFromAccessToken(accessToken);
-
-  // Retrieve the user's roles from the database
-  const user = await db.user.findUnique({
-    where: { id: userId },
-    include: {
-      member: {
-        include: {
-          community_fk: {
-            select: { id: true },
-          },
-          role_fk: {
-            select: { name: true },
-          },
+    if (!existingMember) {
+      throw new NotFoundError("Member not found.");
+    }
+
+    // The owner can never be removed from their own community
+    if (existingMember.user === existingMember.community_fk.owner) {
+      throw new ForbiddenError("The community owner cannot be removed.");
+    }
+
+    // Get the permissions of the user in the member's community
+    const userId = req.user!.id;
+    const permissions = await getPermissions(userId, existingMember.community);
+
+    // The owner can remove anyone else, other users need the member:remove
+    // permission and can only remove members whose role grants nothing they
+    // do not hold themselves, so moderators cannot remove admins
+    const isOwner = userId === existingMember.community_fk.owner;
+    const canRemoveMember =
+      permissions.has("member:remove") &&
+      (isOwner ||
+        holdsAll(
+          permissions,
+          parsePermissions(existingMember.role_fk.permissions)
+        ));
+
+    if (!canRemoveMember) {
+      throw new ForbiddenError();
+    }
+
+    // Mark the member as removed, record it in the audit log and notify the
+    // webhooks of the community. The member can be restored until it is purged.
+    const { community_fk, role_fk, ...memberData } = existingMember;
+
+    await db.$transaction(async (tx) => {
+      await tx.member.update({
+        where: { id: memberId },
+        data: { deleted_at: new Date() },
+      });
+
+      await recordAudit(
+        {
+          actor: userId,
+          action: "member.remove",
+          target: memberId,
+          community: existingMember.community,
+          before: memberData,
         },
+        tx
+      );
+
+      await publishCommunityEvent(
+        existingMember.community,
+        "member.removed",
+        memberData,
+        tx
+      );
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// POST /v1/member/:id/restore
+router.post(
+  "/:id/restore",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Get the member ID from the request parameters
+    const memberId = req.params.id;
+
+    // Check if the member exists in a community that was not deleted
+    const existingMember = await db.member.findFirst({
+      where: { id: memberId, community_fk: { deleted_at: null } },
+      include: {
+        community_fk: { select: { owner: true } },
+        role_fk: { select: { permissions: true } },
       },
-    },
-  });
-
-  // Check if the user has the "community_admin" or "community_moderator" role
-  const isAdminOrModerator = user?.member.some(
-    (member) =>
-      member.role_fk.name === "Community Admin" ||
-      member.role_fk.name === "Community Moderator"
-  );
+    });
 
-  return isAdminOrModerator;
-}
+    if (!existingMember) {
+      throw new NotFoundError("Member not found.");
+    }
+
+    // The owner can restore anyone, other users need the member:add
+    // permission and can only restore members whose role grants nothing they
+    // do not hold themselves
+    const userId = req.user!.id;
+    const permissions = await getPermissions(userId, existingMember.community);
+    const isOwner = userId === existingMember.community_fk.owner;
+    const canRestoreMember =
+      permissions.has("member:add") &&
+      (isOwner ||
+        holdsAll(
+          permissions,
+          parsePermissions(existingMember.role_fk.permissions)
+        ));
+
+    if (!canRestoreMember) {
+      throw new ForbiddenError();
+    }
+
+    if (!existingMember.deleted_at) {
+      throw new ConflictError("The member is not removed.", {
+        code: "NOT_DELETED",
+      });
+    }
+
+    assertRestorable(existingMember.deleted_at);
+
+    // The user may have joined again since they were removed
+    const activeMember = await db.member.findFirst({
+      where: {
+        community: existingMember.community,
+        user: existingMember.user,
+        deleted_at: null,
+      },
+    });
+
+    if (activeMember) {
+      throw new ConflictError("User is already added in the community.");
+    }
+
+    // Restore the member, record it in the audit log and notify the webhooks
+    // of the community
+    const { community_fk, role_fk, ...memberData } = existingMember;
+
+    const restoredMember = await db.$transaction(async (tx) => {
+      const updatedMember = await tx.member.update({
+        where: { id: memberId },
+        data: { deleted_at: null },
+        select: memberSelect,
+      });
+
+      await recordAudit(
+        {
+          actor: userId,
+          action: "member.restore",
+          target: memberId,
+          community: existingMember.community,
+          before: memberData,
+          after: { ...memberData, deleted_at: null },
+        },
+        tx
+      );
+
+      await publishCommunityEvent(
+        existingMember.community,
+        "member.added",
+        { ...memberData, deleted_at: null },
+        tx
+      );
+
+      return updatedMember;
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: toMemberResponse(restoredMember),
+      },
+    });
+  })
+);
 
 export default router;
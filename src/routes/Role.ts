@@ -3,97 +3,104 @@ import type {Request, Response} from 'express';
 import { z } from 'zod';
 import { Snowflake } from '@theinternetfolks/snowflake';
 import { db } from '../utils/db.server';
+import { requireAuth } from '../utils/auth';
+import { ForbiddenError, asyncHandler } from '../utils/errors';
+import {
+  PERMISSIONS,
+  getGrantablePermissions,
+  holdsAll,
+  isDefaultRoleName,
+  parsePermissions,
+  serializePermissions,
+} from '../utils/permissions';
+import { buildPage, getPagination, getPaginationArgs } from '../utils/pagination';
+import { recordAudit } from '../utils/audit';
 
 const router = express.Router();
 
 // Define the request body schema
-const roleSchema = z.object({
-  name: z.string().min(2, { message: 'Name should be at least 2 characters.' }),
+export const roleSchema = z.object({
+  name: z
+    .string()
+    .min(2, { message: 'Name should be at least 2 characters.' })
+    .refine((name) => !isDefaultRoleName(name), {
+      message: 'This name is reserved for a default role.',
+    }),
+  permissions: z.array(z.enum(PERMISSIONS)).default([]),
 });
 
+// Expose the permissions of a role as a list
+function toRoleResponse<T extends { permissions: string }>(role: T) {
+  return { ...role, permissions: parsePermissions(role.permissions) };
+}
+
 //Role create endpoint
-router.post('/role', async (req: Request, res: Response) => {
-    try {
-      // Validate the request body against the schema
-      const validatedData = roleSchema.safeParse(req.body);
-  
-      if (!validatedData.success) {
-        // Handle the validation error and return the error response
-        const errors = validatedData.error.issues.map((issue) => ({
-          param: issue.path[0],
-          message: issue.message,
-          code: 'INVALID_INPUT',
-        }));
-  
-        return res.status(400).json({
-          status: false,
-          errors,
-        });
-      }
-  
-      // Process the request and create the role
-      const roleId = Snowflake.generate();
-  
-      const role = await db.role.create({
-        data: {
-          id: roleId,
-          name: validatedData.data.name,
-        },
-      });
-  
-      // Return the success response
-      res.status(200).json({
-        status: true,
-        content: {
-          data: role,
-        },
-      });
-    } catch (error: any) {
-      // Return a generic error response for any other errors
-      return res.status(500).json({
-        status: false,
-        errors: [{ message: 'Internal Server Error', code: 'INTERNAL_SERVER_ERROR' }],
-      });
-    }
+router.post('/role', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+  // Validate the request body against the schema
+  const validatedData = roleSchema.parse(req.body);
+
+  // A role can only grant permissions the user holds in some community
+  const grantable = await getGrantablePermissions(req.user!.id);
+
+  if (!holdsAll(grantable, validatedData.permissions)) {
+    throw new ForbiddenError(
+      'You can only grant permissions you hold yourself.',
+      { param: 'permissions' }
+    );
+  }
+
+  // Process the request and create the role
+  const roleId = Snowflake.generate();
+
+  const [role] = await db.$transaction([
+    db.role.create({
+      data: {
+        id: roleId,
+        name: validatedData.name,
+        permissions: serializePermissions(validatedData.permissions),
+      },
+    }),
+    recordAudit({
+      actor: req.user!.id,
+      action: 'role.create',
+      target: roleId,
+      after: { id: roleId, ...validatedData },
+    }),
+  ]);
+
+  // Return the success response
+  res.status(200).json({
+    status: true,
+    content: {
+      data: toRoleResponse(role),
+    },
   });
+}));
 
 // Role get all endpoint
-router.get('/role', async (req: Request, res: Response) => {
-  try {
-    // Retrieve all roles from the database
-    const roles = await db.role.findMany();
+router.get('/role', asyncHandler(async (req: Request, res: Response) => {
+  // Read the pagination parameters from the query string
+  const pagination = getPagination(req.query);
 
-    // Calculate pagination values
-    const total = roles.length;
-    const itemsPerPage = 10;
-    const pages = Math.ceil(total / itemsPerPage);
-    const page = Number(req.query.page) || 1;
+  // Count the roles and fetch the requested page from the database
+  const [total, roles] = await Promise.all([
+    db.role.count(),
+    db.role.findMany({
+      ...getPaginationArgs(pagination),
+      orderBy: { id: 'asc' },
+    }),
+  ]);
 
-    // Paginate the roles
-    const startIndex = (page - 1) * itemsPerPage;
-    const endIndex = page * itemsPerPage;
-    const paginatedRoles = roles.slice(startIndex, endIndex);
+  // Return the success response with pagination metadata
+  const { meta, data } = buildPage(roles, total, pagination);
 
-    // Return the success response with pagination metadata
-    res.status(200).json({
-      status: true,
-      content: {
-        meta: {
-          total,
-          pages,
-          page,
-        },
-        data: paginatedRoles,
-      },
-    });
-  } catch (error) {
-    // Return an error response if there's an error
-    res.status(500).json({
-      status: false,
-      errors: [{ message: 'Internal Server Error', code: 'INTERNAL_SERVER_ERROR' }],
-    });
-  }
-});
-  
+  res.status(200).json({
+    status: true,
+    content: {
+      meta,
+      data: data.map(toRoleResponse),
+    },
+  });
+}));
 
 export default router;
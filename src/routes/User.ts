@@ -1,28 +1,146 @@
 import { Router, Request, Response } from "express";
 import { z } from "zod";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { Snowflake } from "@theinternetfolks/snowflake";
 import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthenticatedError,
+  ValidationError,
+  asyncHandler,
+} from "../utils/errors";
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../utils/session";
+import {
+  assertNotLockedOut,
+  clearFailedSignIns,
+  rateLimit,
+  recordFailedSignIn,
+} from "../utils/rateLimit";
+import { consumeUserToken, issueUserToken } from "../utils/userTokens";
+import { getMailer } from "../utils/mailer";
+import { sendVerificationMail } from "../utils/emailVerification";
+import { recordAudit } from "../utils/audit";
+import { publishCommunityEvent } from "../utils/communityEvents";
+import { config } from "../utils/config";
+import { generateOpaqueToken } from "../utils/tokens";
+import { purgeCommunity } from "../utils/softDelete";
 
 const router = Router();
 
+// Fields of a user returned by the API
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  email_verified_at: true,
+  created_at: true,
+};
+
+// Password reset tokens expire after an hour
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Hash of a random password, compared against when the email is unknown so
+// a sign in takes as long whether or not the account exists
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync(
+  generateOpaqueToken(),
+  config.bcryptRounds
+);
+
+// Limit the sign ups and sign ins coming from one IP address
+const signUpLimit = rateLimit({
+  name: "signup",
+  max: 10,
+  windowMs: 60 * 60 * 1000,
+});
+
+const signInLimit = rateLimit({
+  name: "signin",
+  max: 20,
+  windowMs: 15 * 60 * 1000,
+});
+
+const forgotPasswordLimit = rateLimit({
+  name: "password-forgot",
+  max: 5,
+  windowMs: 60 * 60 * 1000,
+});
+
+// Limit the verification mails one user can ask for
+const resendVerificationLimit = rateLimit({
+  name: "verify-email-resend",
+  max: 5,
+  windowMs: 60 * 60 * 1000,
+  key: (req) => req.user!.id,
+});
+
+// Limit the current password guesses of one user
+const changePasswordLimit = rateLimit({
+  name: "password-change",
+  max: 5,
+  windowMs: 15 * 60 * 1000,
+  key: (req) => req.user!.id,
+});
+
 // Define the request body schema
-const signUpSchema = z.object({
+export const signUpSchema = z.object({
   name: z.string().min(2),
   email: z.string().email(),
   password: z.string().min(6),
 });
 
 //Define the request body schema
-const signInSchema = z.object({
+export const signInSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
 });
 
+//Define the request body schema
+export const refreshSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+// Define the request body schema
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+// Define the request body schema
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+// Define the request body schema
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Define the request body schema
+export const updateMeSchema = z
+  .object({
+    name: z.string().min(2),
+    email: z.string().email(),
+  })
+  .partial();
+
+// Define the request body schema
+export const changePasswordSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(6),
+});
+
 // Sign up endpoint
-router.post("/signup", async (req: Request, res: Response) => {
-  try {
+router.post(
+  "/signup",
+  signUpLimit,
+  asyncHandler(async (req: Request, res: Response) => {
     // Validate the request body against the schema
     const validatedData = signUpSchema.parse(req.body);
 
@@ -34,20 +152,16 @@ router.post("/signup", async (req: Request, res: Response) => {
     });
 
     if (existingUser) {
-      return res.status(409).json({
-        status: false,
-        errors: [
-          {
-            param: "email",
-            message: "User with this email address already exists.",
-            code: "RESOURCE_EXISTS",
-          },
-        ],
+      throw new ConflictError("User with this email address already exists.", {
+        param: "email",
       });
     }
 
     // Hash the password
-    const hashedPassword = await bcrypt.hash(validatedData.password, 10);
+    const hashedPassword = await bcrypt.hash(
+      validatedData.password,
+      config.bcryptRounds
+    );
 
     // Create a new user
     const userId = Snowflake.generate();
@@ -61,8 +175,11 @@ router.post("/signup", async (req: Request, res: Response) => {
       },
     });
 
-    // Generate access token using JWT
-    const accessToken = generateAccessToken(user.id);
+    // Mail the user a token to verify their email address
+    await sendVerificationMail(user);
+
+    // Start a session and issue its access and refresh tokens
+    const { accessToken, refreshToken } = await createSession(user.id);
 
     // Return the success response
     res.status(200).json({
@@ -72,80 +189,53 @@ router.post("/signup", async (req: Request, res: Response) => {
           id: user.id,
           name: user.name,
           email: user.email,
+          email_verified_at: user.email_verified_at,
           created_at: user.created_at,
         },
         meta: {
           access_token: accessToken,
+          refresh_token: refreshToken,
         },
       },
     });
-  } catch (error) {
-    // Handle the validation error and return the error response
-    if (error instanceof z.ZodError) {
-      const errors = error.errors.map((err) => ({
-        param: err.path[0],
-        message: err.message,
-        code: "INVALID_INPUT",
-      }));
-
-      return res.status(400).json({
-        status: false,
-        errors,
-      });
-    }
-
-    // Return a generic error response for any other errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
-    });
-  }
-});
-
-// Generate access token using JWT
-function generateAccessToken(userId: string): string {
-  const secretKey = process.env.JWT_SECRET as string; // Replace with your own secret key
-  const tokenPayload = { userId };
-  const options = { expiresIn: "1h" }; // Token expires in 1 hour
-
-  return jwt.sign(tokenPayload, secretKey, options);
-}
+  })
+);
 
 // Sign in endpoint
-router.post("/signin", async (req: Request, res: Response) => {
-  try {
+router.post(
+  "/signin",
+  signInLimit,
+  asyncHandler(async (req: Request, res: Response) => {
     // Validate the request body against the schema
     const validatedData = signInSchema.parse(req.body);
 
+    // Refuse to check passwords for an account that is locked out
+    await assertNotLockedOut(validatedData.email);
+
     // Retrieve the user from the database by email
     const user = await db.user.findUnique({
       where: { email: validatedData.email },
     });
 
-    // Check if the user exists and verify the password
-    if (!user || !bcrypt.compareSync(validatedData.password, user.password)) {
-      return res.status(401).json({
-        status: false,
-        errors: [
-          {
-            param: "password",
-            message: "The credentials you provided are invalid.",
-            code: "INVALID_CREDENTIALS",
-          },
-        ],
-      });
+    // Verify the password, comparing against a dummy hash for unknown emails
+    const passwordMatches = await bcrypt.compare(
+      validatedData.password,
+      user?.password ?? DUMMY_PASSWORD_HASH
+    );
+
+    if (!user || !passwordMatches) {
+      await recordFailedSignIn(validatedData.email);
+
+      throw new UnauthenticatedError(
+        "The credentials you provided are invalid.",
+        { param: "password", code: "INVALID_CREDENTIALS" }
+      );
     }
 
-    // Generate access token
-    const accessToken = jwt.sign(
-      { id: user.id },
-      process.env.JWT_SECRET as string,
-      {
-        expiresIn: "1h",
-      }
-    );
+    await clearFailedSignIns(validatedData.email);
+
+    // Start a session and issue its access and refresh tokens
+    const { accessToken, refreshToken } = await createSession(user.id);
 
     // Remove the password field from the user object
     const { password, ...userData } = user;
@@ -157,109 +247,443 @@ router.post("/signin", async (req: Request, res: Response) => {
         data: userData,
         meta: {
           access_token: accessToken,
+          refresh_token: refreshToken,
         },
       },
     });
-  } catch (error) {
-    // Handle the validation error and return the error response
-    if (error instanceof z.ZodError) {
-      const errors = error.errors.map((err) => ({
-        param: err.path[0],
-        message: err.message,
-        code: "INVALID_INPUT",
-      }));
-
-      return res.status(400).json({
-        status: false,
-        errors,
+  })
+);
+
+// Refresh endpoint
+router.post(
+  "/refresh",
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = refreshSchema.parse(req.body);
+
+    // Rotate the refresh token, a reused or revoked token yields nothing
+    const tokens = await rotateRefreshToken(validatedData.refresh_token);
+
+    if (!tokens) {
+      throw new UnauthenticatedError("Invalid refresh token", {
+        param: "refresh_token",
+        code: "INVALID_TOKEN",
       });
     }
 
-    // Return a generic error response for any other errors
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
+    // Return the new token pair
+    res.status(200).json({
+      status: true,
+      content: {
+        meta: {
+          access_token: tokens.accessToken,
+          refresh_token: tokens.refreshToken,
+        },
+      },
     });
-  }
-});
+  })
+);
 
-// Get Me endpoint
-router.get("/me", async (req: Request, res: Response) => {
-  try {
-    // Check if the access token is present
-    const accessToken = req.headers.authorization?.split(" ")[1];
-
-    if (!accessToken) {
-      return res.status(401).json({
-        status: false,
-        errors: [
-          { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
-        ],
+// Logout endpoint, revokes the current session
+router.post(
+  "/logout",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    await revokeSession(req.user!.claims.jti);
+
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Logout everywhere endpoint, revokes every session of the user
+router.post(
+  "/logout/all",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    await revokeAllSessions(req.user!.id);
+
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Forgot password endpoint, mails a reset token to the user
+router.post(
+  "/password/forgot",
+  forgotPasswordLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = forgotPasswordSchema.parse(req.body);
+
+    // Retrieve the user from the database by email
+    const user = await db.user.findUnique({
+      where: { email: validatedData.email },
+    });
+
+    // Mail a reset token if the account exists
+    if (user) {
+      const token = await issueUserToken(
+        user.id,
+        "password_reset",
+        PASSWORD_RESET_TTL_MS
+      );
+
+      await getMailer().send({
+        to: user.email,
+        subject: "Reset your password",
+        text: [
+          "Use this token to reset your password, it expires in an hour:",
+          "",
+          token,
+          "",
+          "If you did not ask to reset your password you can ignore this mail.",
+        ].join("\n"),
       });
     }
 
-    // Get the user ID from the access token
-    const userId = getUserIdFromAccessToken(accessToken);
+    // Respond the same either way so the endpoint does not reveal accounts
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Reset password endpoint, sets a new password with a reset token
+router.post(
+  "/password/reset",
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = resetPasswordSchema.parse(req.body);
+
+    // Hash the new password
+    const hashedPassword = await bcrypt.hash(
+      validatedData.password,
+      config.bcryptRounds
+    );
+
+    // Use up the token and set the password together
+    const user = await db.$transaction(async (tx) => {
+      const userId = await consumeUserToken(
+        validatedData.token,
+        "password_reset",
+        tx
+      );
+
+      if (!userId) {
+        throw new ValidationError("Invalid or expired reset token", {
+          param: "token",
+          code: "INVALID_TOKEN",
+        });
+      }
 
-    if (!userId) {
-      return res.status(401).json({
-        status: false,
-        errors: [{ message: "Invalid access token", code: "INVALID_TOKEN" }],
+      return tx.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      });
+    });
+
+    // Sign the user out everywhere and lift a lockout of the account
+    await revokeAllSessions(user.id);
+    await clearFailedSignIns(user.email);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Verify email endpoint, marks the email address of the user as verified
+router.post(
+  "/verify-email",
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = verifyEmailSchema.parse(req.body);
+
+    // Use up the token and mark the email address as verified together
+    const user = await db.$transaction(async (tx) => {
+      const userId = await consumeUserToken(
+        validatedData.token,
+        "email_verification",
+        tx
+      );
+
+      if (!userId) {
+        throw new ValidationError("Invalid or expired verification token", {
+          param: "token",
+          code: "INVALID_TOKEN",
+        });
+      }
+
+      return tx.user.update({
+        where: { id: userId },
+        data: { email_verified_at: new Date() },
+        select: userSelect,
+      });
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: user,
+      },
+    });
+  })
+);
+
+// Resend verification endpoint, mails the signed in user a new token
+router.post(
+  "/verify-email/resend",
+  requireAuth,
+  resendVerificationLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Retrieve the signed in user from the database
+    const user = await db.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    // There is nothing to do for an address that is already verified
+    if (user.email_verified_at) {
+      throw new ConflictError("Email address is already verified.", {
+        code: "ALREADY_VERIFIED",
       });
     }
 
+    // Mail a new token, the previous one stops working
+    await sendVerificationMail(user);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Get Me endpoint
+router.get(
+  "/me",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Get the user ID of the signed in user
+    const userId = req.user!.id;
+
     // Retrieve the user details from the database
     const user = await db.user.findUnique({
       where: {
         id: userId,
       },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        created_at: true,
-      },
+      select: userSelect,
     });
 
     // Check if the user exists
     if (!user) {
-      return res.status(404).json({
-        status: false,
-        errors: [{ message: "User not found", code: "USER_NOT_FOUND" }],
-      });
+      throw new NotFoundError("User not found");
     }
 
     // Return the user details
-    return res.status(200).json({
+    res.status(200).json({
       status: true,
       content: {
         data: user,
       },
     });
-  } catch (error) {
-    console.error("Error in Get Me:", error);
-    return res.status(500).json({
-      status: false,
-      errors: [
-        { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
-      ],
+  })
+);
+
+// Update Me endpoint, changes the name or email of the signed in user
+router.patch(
+  "/me",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = updateMeSchema.parse(req.body);
+
+    // Retrieve the signed in user from the database
+    const existingUser = await db.user.findUnique({
+      where: { id: req.user!.id },
     });
-  }
-});
 
-// Function to extract user ID from the access token
-function getUserIdFromAccessToken(accessToken: string): string | null {
-  try {
-    const decodedToken: any = jwt.verify(
-      accessToken,
-      process.env.JWT_SECRET as string
+    if (!existingUser) {
+      throw new NotFoundError("User not found");
+    }
+
+    const emailChanged =
+      validatedData.email !== undefined &&
+      validatedData.email !== existingUser.email;
+
+    // Check if another user already has the new email
+    if (emailChanged) {
+      const userWithEmail = await db.user.findUnique({
+        where: { email: validatedData.email },
+      });
+
+      if (userWithEmail) {
+        throw new ConflictError(
+          "User with this email address already exists.",
+          { param: "email" }
+        );
+      }
+    }
+
+    // Update the user, a new email has to be verified again
+    const user = await db.user.update({
+      where: { id: existingUser.id },
+      data: {
+        name: validatedData.name,
+        ...(emailChanged && {
+          email: validatedData.email,
+          email_verified_at: null,
+        }),
+      },
+      select: userSelect,
+    });
+
+    if (emailChanged) {
+      await sendVerificationMail(user);
+    }
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+      content: {
+        data: user,
+      },
+    });
+  })
+);
+
+// Change password endpoint, requires the current password
+router.post(
+  "/me/password",
+  requireAuth,
+  changePasswordLimit,
+  asyncHandler(async (req: Request, res: Response) => {
+    // Validate the request body against the schema
+    const validatedData = changePasswordSchema.parse(req.body);
+
+    // Retrieve the signed in user from the database
+    const user = await db.user.findUnique({
+      where: { id: req.user!.id },
+    });
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Verify the current password
+    const passwordMatches = await bcrypt.compare(
+      validatedData.current_password,
+      user.password
+    );
+
+    if (!passwordMatches) {
+      throw new ValidationError("The current password is incorrect.", {
+        param: "current_password",
+        code: "INVALID_CREDENTIALS",
+      });
+    }
+
+    // Hash and store the new password
+    const hashedPassword = await bcrypt.hash(
+      validatedData.new_password,
+      config.bcryptRounds
     );
-    return decodedToken.id;
-  } catch (error) {
-    return null;
-  }
-}
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { password: hashedPassword },
+    });
+
+    // Sign the user out of every other session
+    await revokeAllSessions(user.id, req.user!.claims.jti);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// Delete Me endpoint, removes the account of the signed in user
+router.delete(
+  "/me",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    // Remove the user together with everything that points at them,
+    // communities they deleted can no longer be restored without an owner
+    await db.$transaction(async (tx) => {
+      // Communities need an owner, so they have to be handed over first.
+      // Checking inside the transaction keeps a community restored or handed
+      // over meanwhile from being purged.
+      const ownedCommunities = await tx.community.count({
+        where: { owner: userId, deleted_at: null },
+      });
+
+      if (ownedCommunities > 0) {
+        throw new ConflictError(
+          "Transfer or delete the communities you own before deleting your account.",
+          { code: "OWNS_COMMUNITIES" }
+        );
+      }
+
+      const deletedCommunities = await tx.community.findMany({
+        where: { owner: userId },
+        select: { id: true },
+      });
+
+      for (const community of deletedCommunities) {
+        await purgeCommunity(community.id, tx);
+      }
+
+      const memberships = await tx.member.findMany({
+        where: { user: userId, deleted_at: null },
+      });
+
+      for (const membership of memberships) {
+        await recordAudit(
+          {
+            actor: userId,
+            action: "member.remove",
+            target: membership.id,
+            community: membership.community,
+            before: membership,
+          },
+          tx
+        );
+
+        await publishCommunityEvent(
+          membership.community,
+          "member.removed",
+          membership,
+          tx
+        );
+      }
+
+      await tx.member.deleteMany({ where: { user: userId } });
+      await tx.joinRequest.deleteMany({ where: { user: userId } });
+      await tx.userToken.deleteMany({ where: { user: userId } });
+      await tx.refreshToken.deleteMany({
+        where: { session_fk: { user: userId } },
+      });
+      await tx.session.deleteMany({ where: { user: userId } });
+      await tx.user.delete({ where: { id: userId } });
+    });
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
 
 export default router;
@@ -0,0 +1,256 @@
+import express from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Prisma } from "@prisma/client";
+import { db } from "../utils/db.server";
+import { requireAuth } from "../utils/auth";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  asyncHandler,
+} from "../utils/errors";
+import { can } from "../utils/permissions";
+import { generateOpaqueToken } from "../utils/tokens";
+import {
+  WEBHOOK_EVENTS,
+  toWebhookDeliveryResponse,
+  toWebhookResponse,
+} from "../utils/webhooks";
+import { getWebhookUrlProblem } from "../utils/webhookUrl";
+import {
+  buildPage,
+  getPagination,
+  getPaginationArgs,
+} from "../utils/pagination";
+
+const router = express.Router();
+
+// Define the request body schema
+export const webhookSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), {
+      message: "Webhook URLs should use http or https.",
+    }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+});
+
+// Define the query string schema for listing deliveries
+export const deliveryListSchema = z.object({
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+});
+
+// Function to check the user may manage the webhooks of the community
+async function assertCanManageWebhooks(userId: string, community: string) {
+  const existingCommunity = await db.community.findFirst({
+    where: { id: community, deleted_at: null },
+  });
+
+  if (!existingCommunity) {
+    throw new NotFoundError("Community not found.");
+  }
+
+  const canManage = await can(userId, community, "webhook:manage");
+
+  if (!canManage) {
+    throw new ForbiddenError();
+  }
+}
+
+// Function to get a webhook of the community or fail with a 404
+async function findWebhook(community: string, webhookId: string) {
+  const webhook = await db.webhook.findFirst({
+    where: { id: webhookId, community },
+  });
+
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found.");
+  }
+
+  return webhook;
+}
+
+// POST /v1/community/:id/webhooks
+router.post(
+  "/:id/webhooks",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    // Validate the request body against the schema
+    const validatedData = webhookSchema.parse(req.body);
+
+    await assertCanManageWebhooks(req.user!.id, id);
+
+    // Refuse URLs that point into the network of the server
+    const urlProblem = await getWebhookUrlProblem(validatedData.url);
+
+    if (urlProblem) {
+      throw new ValidationError(urlProblem, { param: "url" });
+    }
+
+    // Create the webhook with a fresh signing secret
+    const webhook = await db.webhook.create({
+      data: {
+        id: Snowflake.generate(),
+        community: id,
+        url: validatedData.url,
+        secret: generateOpaqueToken(),
+        events: Array.from(new Set(validatedData.events)).join(","),
+        created_by: req.user!.id,
+      },
+    });
+
+    // Return the success response, the secret is only ever shown here
+    res.status(201).json({
+      status: true,
+      content: {
+        data: { ...toWebhookResponse(webhook), secret: webhook.secret },
+      },
+    });
+  })
+);
+
+// GET /v1/community/:id/webhooks
+router.get(
+  "/:id/webhooks",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await assertCanManageWebhooks(req.user!.id, id);
+
+    // Read the pagination parameters from the query string
+    const pagination = getPagination(req.query);
+
+    // Get the webhooks of the community
+    const [total, webhooks] = await Promise.all([
+      db.webhook.count({ where: { community: id } }),
+      db.webhook.findMany({
+        where: { community: id },
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "asc" },
+      }),
+    ]);
+
+    // Return the success response
+    const { meta, data } = buildPage(webhooks, total, pagination);
+
+    res.status(200).json({
+      status: true,
+      content: {
+        meta,
+        data: data.map(toWebhookResponse),
+      },
+    });
+  })
+);
+
+// DELETE /v1/community/:id/webhooks/:webhookId
+router.delete(
+  "/:id/webhooks/:webhookId",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, webhookId } = req.params;
+
+    await assertCanManageWebhooks(req.user!.id, id);
+    await findWebhook(id, webhookId);
+
+    // Remove the webhook together with its deliveries
+    await db.$transaction([
+      db.webhookDelivery.deleteMany({ where: { webhook: webhookId } }),
+      db.webhook.delete({ where: { id: webhookId } }),
+    ]);
+
+    // Return the success response
+    res.status(200).json({
+      status: true,
+    });
+  })
+);
+
+// GET /v1/community/:id/webhooks/:webhookId/deliveries
+router.get(
+  "/:id/webhooks/:webhookId/deliveries",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, webhookId } = req.params;
+
+    await assertCanManageWebhooks(req.user!.id, id);
+    await findWebhook(id, webhookId);
+
+    // Read the pagination and filter parameters from the query string
+    const pagination = getPagination(req.query);
+    const { status } = deliveryListSchema.parse(req.query);
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      webhook: webhookId,
+      ...(status && { status }),
+    };
+
+    // Get the deliveries of the webhook, newest first
+    const [total, deliveries] = await Promise.all([
+      db.webhookDelivery.count({ where }),
+      db.webhookDelivery.findMany({
+        where,
+        ...getPaginationArgs(pagination),
+        orderBy: { id: "desc" },
+      }),
+    ]);
+
+    // Return the success response
+    const { meta, data } = buildPage(deliveries, total, pagination);
+
+    res.status(200).json({
+      status: true,
+      content: {
+        meta,
+        data: data.map(toWebhookDeliveryResponse),
+      },
+    });
+  })
+);
+
+// POST /v1/community/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+router.post(
+  "/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+  requireAuth,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, webhookId, deliveryId } = req.params;
+
+    await assertCanManageWebhooks(req.user!.id, id);
+    await findWebhook(id, webhookId);
+
+    // Check if the delivery belongs to the webhook
+    const existingDelivery = await db.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhook: webhookId },
+    });
+
+    if (!existingDelivery) {
+      throw new NotFoundError("Delivery not found.");
+    }
+
+    // Queue a new delivery of the same payload, keeping the old one as history
+    const delivery = await db.webhookDelivery.create({
+      data: {
+        id: Snowflake.generate(),
+        webhook: webhookId,
+        event: existingDelivery.event,
+        payload: existingDelivery.payload,
+      },
+    });
+
+    // Return the success response
+    res.status(202).json({
+      status: true,
+      content: {
+        data: toWebhookDeliveryResponse(delivery),
+      },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,30 @@
+import type { Router } from "express";
+
+import healthRoute from "./Health";
+import docsRoute from "./Docs";
+import roleRoute from "./Role";
+import userRoute from "./User";
+import communityRoute from "./Community";
+import memberRoute from "./Member";
+import inviteRoute from "./Invite";
+import joinRequestRoute from "./JoinRequest";
+import auditRoute from "./Audit";
+import webhookRoute from "./Webhook";
+import eventRoute from "./Event";
+
+// Every router with the path it is mounted at, in mounting order. The
+// invite, join request, audit, webhook and event routers come before the
+// community router so its /:id route does not shadow them.
+export const routes: { path: string; router: Router }[] = [
+  { path: "/", router: healthRoute },
+  { path: "/v1", router: docsRoute },
+  { path: "/v1", router: roleRoute },
+  { path: "/v1/auth", router: userRoute },
+  { path: "/v1/community", router: inviteRoute },
+  { path: "/v1/community", router: joinRequestRoute },
+  { path: "/v1/community", router: auditRoute },
+  { path: "/v1/community", router: webhookRoute },
+  { path: "/v1/community", router: eventRoute },
+  { path: "/v1/community", router: communityRoute },
+  { path: "/v1/member", router: memberRoute },
+];
@@ -0,0 +1,56 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { AuditEvent, Prisma } from "@prisma/client";
+import { db } from "./db.server";
+
+// Every change that is recorded in the audit log
+export const AUDIT_ACTIONS = [
+  "community.create",
+  "community.update",
+  "community.delete",
+  "community.transfer",
+  "community.restore",
+  "member.add",
+  "member.remove",
+  "member.role_change",
+  "member.restore",
+  "role.create",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+interface AuditEventInput {
+  actor: string | null;
+  action: AuditAction;
+  target: string;
+  community?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Record an audit event. Pass the transaction client so the event is only
+// kept when the change itself is, or use the result in a batch transaction.
+export function recordAudit(
+  event: AuditEventInput,
+  client: Prisma.TransactionClient = db
+) {
+  return client.auditEvent.create({
+    data: {
+      id: Snowflake.generate(),
+      actor: event.actor,
+      action: event.action,
+      target: event.target,
+      community: event.community,
+      before: event.before === undefined ? null : JSON.stringify(event.before),
+      after: event.after === undefined ? null : JSON.stringify(event.after),
+    },
+  });
+}
+
+// Shape an audit event the way the API returns it, with parsed snapshots
+export function toAuditEventResponse(event: AuditEvent) {
+  return {
+    ...event,
+    before: event.before === null ? null : JSON.parse(event.before),
+    after: event.after === null ? null : JSON.parse(event.after),
+  };
+}
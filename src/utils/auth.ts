@@ -0,0 +1,129 @@
+import type { Request } from "express";
+import jwt from "jsonwebtoken";
+import { db } from "./db.server";
+import { UnauthenticatedError, asyncHandler } from "./errors";
+import { config } from "./config";
+
+// Claims carried by every access token we issue
+export interface AccessTokenClaims extends jwt.JwtPayload {
+  id: string;
+  // The session the token belongs to
+  jti: string;
+}
+
+// The authenticated caller attached to the request by the auth middleware
+export interface AuthUser {
+  id: string;
+  claims: AccessTokenClaims;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Generate access token using JWT
+export function generateAccessToken(
+  userId: string,
+  sessionId: string
+): string {
+  const tokenPayload = { id: userId };
+  // Token expires after JWT_EXPIRES_IN and carries the session ID as its jti
+  const options = { expiresIn: config.jwtExpiresIn, jwtid: sessionId };
+
+  return jwt.sign(tokenPayload, config.jwtSecret, options);
+}
+
+// Function to extract the bearer token from the Authorization header
+function getBearerToken(req: Request): string | null {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return null;
+  }
+
+  return token;
+}
+
+// Function to verify an access token and return its claims
+function verifyAccessToken(accessToken: string): AccessTokenClaims | null {
+  try {
+    const decodedToken = jwt.verify(accessToken, config.jwtSecret);
+
+    if (
+      typeof decodedToken === "string" ||
+      !decodedToken.id ||
+      !decodedToken.jti
+    ) {
+      return null;
+    }
+
+    return decodedToken as AccessTokenClaims;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Function to check that the session behind a token has not been revoked
+async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    select: { revoked_at: true },
+  });
+
+  return !!session && !session.revoked_at;
+}
+
+// Function to resolve the caller from an access token, or null when it is invalid
+async function authenticate(accessToken: string): Promise<AuthUser | null> {
+  const claims = verifyAccessToken(accessToken);
+
+  if (!claims || !(await isSessionActive(claims.jti))) {
+    return null;
+  }
+
+  return { id: claims.id, claims };
+}
+
+// Middleware that rejects the request unless a valid access token is present
+export const requireAuth = asyncHandler(async (req, res, next) => {
+  const accessToken = getBearerToken(req);
+
+  if (!accessToken) {
+    throw new UnauthenticatedError();
+  }
+
+  const user = await authenticate(accessToken);
+
+  if (!user) {
+    throw new UnauthenticatedError("Invalid access token", {
+      code: "INVALID_TOKEN",
+    });
+  }
+
+  req.user = user;
+  next();
+});
+
+// Middleware that attaches the caller when a token is sent, but lets anonymous requests through
+export const optionalAuth = asyncHandler(async (req, res, next) => {
+  const accessToken = getBearerToken(req);
+
+  if (!accessToken) {
+    return next();
+  }
+
+  const user = await authenticate(accessToken);
+
+  if (!user) {
+    throw new UnauthenticatedError("Invalid access token", {
+      code: "INVALID_TOKEN",
+    });
+  }
+
+  req.user = user;
+  next();
+});
@@ -0,0 +1,60 @@
+import { routes } from "../routes";
+import { operations } from "./openapi";
+
+// List every route registered on the mounted routers as "METHOD /path"
+function listRegisteredRoutes(): string[] {
+  const registered: string[] = [];
+
+  for (const { path, router } of routes) {
+    const basePath = path === "/" ? "" : path;
+
+    for (const layer of router.stack) {
+      if (!layer.route) {
+        continue;
+      }
+
+      const routePath = layer.route.path === "/" ? "" : layer.route.path;
+
+      for (const method of Object.keys(layer.route.methods)) {
+        registered.push(`${method.toUpperCase()} ${basePath}${routePath}`);
+      }
+    }
+  }
+
+  return registered;
+}
+
+// Fail when a route is missing from the OpenAPI document or the document
+// describes a route that no longer exists
+function checkOpenApi() {
+  const registered = new Set(listRegisteredRoutes());
+  const documented = new Set(
+    operations.map(
+      (operation) => `${operation.method.toUpperCase()} ${operation.path}`
+    )
+  );
+
+  const undocumented = Array.from(registered).filter(
+    (route) => !documented.has(route)
+  );
+  const unknown = Array.from(documented).filter(
+    (route) => !registered.has(route)
+  );
+
+  for (const route of undocumented) {
+    console.error(`Missing from the OpenAPI document: ${route}`);
+  }
+
+  for (const route of unknown) {
+    console.error(`Documented but not registered: ${route}`);
+  }
+
+  if (undocumented.length > 0 || unknown.length > 0) {
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`All ${registered.size} routes are documented.`);
+}
+
+checkOpenApi();
@@ -0,0 +1,50 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { CommunityEvent, Prisma } from "@prisma/client";
+import { db } from "./db.server";
+import { WebhookEvent, queueWebhookDeliveries } from "./webhooks";
+
+// How long events are kept for event streams resuming with Last-Event-ID
+export const EVENT_BACKLOG_MS = 60 * 60 * 1000;
+
+// Shape an event the way webhooks and event streams receive it
+export function toCommunityEventPayload(event: CommunityEvent) {
+  return {
+    id: event.id,
+    event: event.event,
+    community: event.community,
+    created_at: event.created_at,
+    data: JSON.parse(event.data),
+  };
+}
+
+// Record an event of a community for its event streams and queue it for its
+// webhooks. Pass the transaction client so nothing is sent for a change that
+// was rolled back.
+export async function publishCommunityEvent(
+  community: string,
+  event: WebhookEvent,
+  data: unknown,
+  client: Prisma.TransactionClient = db
+) {
+  // Drop the events that fell out of the backlog
+  await client.communityEvent.deleteMany({
+    where: { created_at: { lt: new Date(Date.now() - EVENT_BACKLOG_MS) } },
+  });
+
+  const communityEvent = await client.communityEvent.create({
+    data: {
+      id: Snowflake.generate(),
+      community,
+      event,
+      data: JSON.stringify(data),
+    },
+  });
+
+  // Every webhook receives the event ID too so receivers can drop repeats
+  await queueWebhookDeliveries(
+    community,
+    event,
+    JSON.stringify(toCommunityEventPayload(communityEvent)),
+    client
+  );
+}
@@ -0,0 +1,107 @@
+import * as dotenv from "dotenv";
+import { z } from "zod";
+
+// Log levels from the most to the least severe
+export const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Parse a positive whole number environment variable
+const positiveInteger = z
+  .string()
+  .regex(/^[1-9]\d*$/, "Expected a whole number greater than 0")
+  .transform(Number);
+
+// Parse a number of seconds or a duration with a unit the way jsonwebtoken
+// reads it, e.g. 900, 15m or 1h. Seconds become a number, jsonwebtoken reads
+// a string without a unit as milliseconds.
+const expiresIn = z
+  .string()
+  .regex(
+    /^([1-9]\d*|(\d+|\d*\.\d+) *(milliseconds?|msecs?|ms|seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w|years?|yrs?|y))$/i,
+    "Expected a number of seconds or a duration such as 15m or 1h"
+  )
+  .transform((value) => (/^\d+$/.test(value) ? Number(value) : value));
+
+// Parse a "true" or "false" environment variable
+const booleanString = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+// Define the schema of the environment variables the API reads
+const envSchema = z
+  .object({
+    PORT: positiveInteger,
+    DATABASE_URL: z.string().min(1),
+    JWT_SECRET: z.string().min(1),
+    // A number of seconds or a duration with a unit, e.g. 900 or 15m
+    JWT_EXPIRES_IN: expiresIn.default("1h"),
+    BCRYPT_ROUNDS: positiveInteger
+      .refine((rounds) => rounds >= 4 && rounds <= 31, "Expected 4 to 31")
+      .default("10"),
+    // Comma separated origins allowed by CORS, * allows every origin
+    CORS_ORIGINS: z.string().min(1).default("*"),
+    DEFAULT_PAGE_SIZE: positiveInteger.default("10"),
+    MAX_PAGE_SIZE: positiveInteger.default("100"),
+    LOG_LEVEL: z.enum(LOG_LEVELS).default("info"),
+    RATE_LIMIT_STORE: z.enum(["memory", "database"]).default("memory"),
+    REQUIRE_VERIFIED_EMAIL: booleanString.default("true"),
+    // How often the webhook worker looks for deliveries that are due
+    WEBHOOK_POLL_INTERVAL_MS: positiveInteger.default("5000"),
+    // Let webhooks point at loopback and private network addresses
+    WEBHOOK_ALLOW_PRIVATE_URLS: booleanString.default("false"),
+    // How long deleted communities and members can be restored before they
+    // are purged
+    SOFT_DELETE_RETENTION_DAYS: positiveInteger.default("30"),
+  })
+  .refine((env) => env.DEFAULT_PAGE_SIZE <= env.MAX_PAGE_SIZE, {
+    message: "DEFAULT_PAGE_SIZE cannot be larger than MAX_PAGE_SIZE",
+    path: ["DEFAULT_PAGE_SIZE"],
+  });
+
+// Read and validate the environment, exiting with every problem listed
+function loadConfig() {
+  dotenv.config();
+
+  // Treat empty variables as unset so their defaults apply
+  const env = Object.fromEntries(
+    Object.entries(process.env).filter(([, value]) => value !== "")
+  );
+
+  const result = envSchema.safeParse(env);
+
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - ${issue.path.join(".")}: ${issue.message}`
+    );
+
+    console.error(
+      ["Invalid configuration, check the .env file:", ...problems].join("\n")
+    );
+    process.exit(1);
+  }
+
+  const parsedEnv = result.data;
+
+  return {
+    port: parsedEnv.PORT,
+    jwtSecret: parsedEnv.JWT_SECRET,
+    jwtExpiresIn: parsedEnv.JWT_EXPIRES_IN,
+    bcryptRounds: parsedEnv.BCRYPT_ROUNDS,
+    corsOrigins:
+      parsedEnv.CORS_ORIGINS === "*"
+        ? "*"
+        : parsedEnv.CORS_ORIGINS.split(",").map((origin) => origin.trim()),
+    defaultPageSize: parsedEnv.DEFAULT_PAGE_SIZE,
+    maxPageSize: parsedEnv.MAX_PAGE_SIZE,
+    logLevel: parsedEnv.LOG_LEVEL,
+    rateLimitStore: parsedEnv.RATE_LIMIT_STORE,
+    requireVerifiedEmail: parsedEnv.REQUIRE_VERIFIED_EMAIL,
+    webhookPollIntervalMs: parsedEnv.WEBHOOK_POLL_INTERVAL_MS,
+    webhookAllowPrivateUrls: parsedEnv.WEBHOOK_ALLOW_PRIVATE_URLS,
+    softDeleteRetentionDays: parsedEnv.SOFT_DELETE_RETENTION_DAYS,
+  };
+}
+
+// The configuration of the API, loaded once when first imported
+export const config = loadConfig();
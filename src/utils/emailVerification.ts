@@ -0,0 +1,48 @@
+import { db } from "./db.server";
+import { ForbiddenError } from "./errors";
+import { getMailer } from "./mailer";
+import { issueUserToken } from "./userTokens";
+import { config } from "./config";
+
+// Verification tokens expire after a day
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Mail the user a token that verifies their email address
+export async function sendVerificationMail(user: { id: string; email: string }) {
+  const token = await issueUserToken(
+    user.id,
+    "email_verification",
+    EMAIL_VERIFICATION_TTL_MS
+  );
+
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: [
+      "Use this token to verify your email address, it expires in a day:",
+      "",
+      token,
+    ].join("\n"),
+  });
+}
+
+// Throw a 403 when the policy requires a verified email and the user has none
+export async function assertEmailVerified(
+  userId: string,
+  message: string,
+  param?: string
+) {
+  // Unverified users are kept out unless REQUIRE_VERIFIED_EMAIL is false
+  if (!config.requireVerifiedEmail) {
+    return;
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { email_verified_at: true },
+  });
+
+  if (!user?.email_verified_at) {
+    throw new ForbiddenError(message, { param, code: "EMAIL_NOT_VERIFIED" });
+  }
+}
@@ -0,0 +1,213 @@
+import type {
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+} from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { logger } from "./logger";
+
+// A single entry of the errors array of an error response
+export interface ErrorDetail {
+  param?: string;
+  message: string;
+  code: string;
+}
+
+interface ErrorOptions {
+  param?: string;
+  code?: string;
+}
+
+// Base class of every error that is reported to the client as is
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly param?: string;
+
+  constructor(status: number, code: string, message: string, param?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.param = param;
+  }
+
+  get errors(): ErrorDetail[] {
+    return [{ param: this.param, message: this.message, code: this.code }];
+  }
+}
+
+// 400, the request is malformed or fails validation
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(400, options.code ?? "INVALID_INPUT", message, options.param);
+  }
+}
+
+// 401, the caller is not signed in or their credentials are invalid
+export class UnauthenticatedError extends ApiError {
+  constructor(
+    message = "You need to sign in to proceed.",
+    options: ErrorOptions = {}
+  ) {
+    super(401, options.code ?? "NOT_SIGNEDIN", message, options.param);
+  }
+}
+
+// 403, the caller is signed in but may not perform the action
+export class ForbiddenError extends ApiError {
+  constructor(
+    message = "You are not authorized to perform this action.",
+    options: ErrorOptions = {}
+  ) {
+    super(403, options.code ?? "NOT_ALLOWED_ACCESS", message, options.param);
+  }
+}
+
+// 404, the resource does not exist or is hidden from the caller
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(404, options.code ?? "RESOURCE_NOT_FOUND", message, options.param);
+  }
+}
+
+// 409, the request clashes with the current state of a resource
+export class ConflictError extends ApiError {
+  constructor(message: string, options: ErrorOptions = {}) {
+    super(409, options.code ?? "RESOURCE_EXISTS", message, options.param);
+  }
+}
+
+// 429, the caller sent too many requests and has to wait
+export class TooManyRequestsError extends ApiError {
+  // Seconds until the caller may try again, sent as the Retry-After header
+  readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number, options: ErrorOptions = {}) {
+    super(429, options.code ?? "TOO_MANY_REQUESTS", message, options.param);
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 400, some items of an all-or-nothing batch failed, one error per item
+export class BatchError extends ApiError {
+  readonly details: ErrorDetail[];
+
+  constructor(message: string, details: ErrorDetail[]) {
+    super(400, "BATCH_FAILED", message);
+    this.details = details;
+  }
+
+  get errors(): ErrorDetail[] {
+    return this.details;
+  }
+}
+
+// Wrap an async route handler so rejected promises reach the error middleware
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+// Function to translate any thrown value into a status and error details
+function toErrorResponse(error: unknown): {
+  status: number;
+  errors: ErrorDetail[];
+} {
+  if (error instanceof ApiError) {
+    return { status: error.status, errors: error.errors };
+  }
+
+  if (error instanceof z.ZodError) {
+    return {
+      status: 400,
+      errors: error.issues.map((issue) => ({
+        param: issue.path.join(".") || undefined,
+        message: issue.message,
+        code: "INVALID_INPUT",
+      })),
+    };
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    // Unique constraint failed, e.g. a duplicate email or slug
+    if (error.code === "P2002") {
+      const target = error.meta?.target;
+      return {
+        status: 409,
+        errors: [
+          {
+            param: Array.isArray(target) ? target[0] : undefined,
+            message: "A resource with these details already exists.",
+            code: "RESOURCE_EXISTS",
+          },
+        ],
+      };
+    }
+
+    // A record the operation depends on was not found
+    if (error.code === "P2025") {
+      return {
+        status: 404,
+        errors: [{ message: "Resource not found.", code: "RESOURCE_NOT_FOUND" }],
+      };
+    }
+  }
+
+  // Body parser rejects malformed JSON with a 400 status
+  if (
+    error instanceof SyntaxError &&
+    (error as SyntaxError & { status?: number }).status === 400
+  ) {
+    return {
+      status: 400,
+      errors: [
+        { message: "The request body is not valid JSON.", code: "INVALID_INPUT" },
+      ],
+    };
+  }
+
+  return {
+    status: 500,
+    errors: [
+      { message: "Internal Server Error", code: "INTERNAL_SERVER_ERROR" },
+    ],
+  };
+}
+
+// Middleware answering requests that matched no route
+export function notFoundHandler(req: Request, res: Response) {
+  res.status(404).json({
+    status: false,
+    errors: [{ message: "Route not found.", code: "RESOURCE_NOT_FOUND" }],
+  });
+}
+
+// Middleware turning every error into the { status: false, errors } envelope
+export function errorHandler(
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { status, errors } = toErrorResponse(error);
+
+  if (status === 500) {
+    logger.error(`Error handling ${req.method} ${req.originalUrl}:`, error);
+  }
+
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (error instanceof TooManyRequestsError) {
+    res.set("Retry-After", String(error.retryAfter));
+  }
+
+  res.status(status).json({ status: false, errors });
+}
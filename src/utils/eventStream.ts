@@ -0,0 +1,113 @@
+import type { CommunityEvent } from "@prisma/client";
+import { db } from "./db.server";
+import { logger } from "./logger";
+
+// How often new events are looked for while anyone is listening
+const POLL_INTERVAL_MS = 1000;
+
+// Most events read per poll, the rest follow on the next poll
+const POLL_BATCH_SIZE = 500;
+
+// An open event stream of a community
+export interface Subscriber {
+  community: string;
+  // Sequence number of the last event the subscriber received, events after
+  // it are sent
+  cursor: number;
+  send: (event: CommunityEvent) => void;
+  close: () => void;
+}
+
+const subscribers = new Set<Subscriber>();
+
+let timer: NodeJS.Timeout | null = null;
+let polling = false;
+
+// Send every subscriber the events of its community past its cursor. The
+// database is polled so events published by other processes arrive too.
+async function pollEvents() {
+  if (subscribers.size === 0) {
+    return;
+  }
+
+  // Read each community from the oldest cursor of its subscribers
+  const oldestCursors = new Map<string, number>();
+
+  subscribers.forEach(({ community, cursor }) => {
+    const oldestCursor = oldestCursors.get(community);
+
+    if (oldestCursor === undefined || cursor < oldestCursor) {
+      oldestCursors.set(community, cursor);
+    }
+  });
+
+  const events = await db.communityEvent.findMany({
+    where: {
+      OR: Array.from(oldestCursors, ([community, cursor]) => ({
+        community,
+        seq: { gt: cursor },
+      })),
+    },
+    orderBy: { seq: "asc" },
+    take: POLL_BATCH_SIZE,
+  });
+
+  for (const subscriber of Array.from(subscribers)) {
+    for (const event of events) {
+      if (
+        event.community === subscriber.community &&
+        event.seq > subscriber.cursor &&
+        subscribers.has(subscriber)
+      ) {
+        subscriber.cursor = event.seq;
+        subscriber.send(event);
+      }
+    }
+  }
+}
+
+// Poll right away and then on an interval, skipping a poll while the
+// previous one is still running
+function schedulePolling() {
+  const poll = () => {
+    if (polling) {
+      return;
+    }
+
+    polling = true;
+    pollEvents()
+      .catch((error) => logger.error("Error while polling events:", error))
+      .finally(() => {
+        polling = false;
+      });
+  };
+
+  if (!timer) {
+    timer = setInterval(poll, POLL_INTERVAL_MS);
+  }
+
+  poll();
+}
+
+// Receive the events of a community published after the cursor, the
+// returned function stops receiving them
+export function subscribeToCommunityEvents(subscriber: Subscriber) {
+  subscribers.add(subscriber);
+  schedulePolling();
+
+  return () => {
+    subscribers.delete(subscriber);
+
+    if (subscribers.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
+
+// Close every open event stream, so the server can shut down
+export async function closeEventStreams() {
+  for (const subscriber of Array.from(subscribers)) {
+    subscriber.close();
+  }
+}
@@ -0,0 +1,20 @@
+import { LOG_LEVELS, LogLevel, config } from "./config";
+
+// Write a message unless its level is below the configured LOG_LEVEL
+function log(
+  level: LogLevel,
+  write: (...args: unknown[]) => void,
+  args: unknown[]
+) {
+  if (LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(config.logLevel)) {
+    write(...args);
+  }
+}
+
+// Log to the console, honouring the configured level
+export const logger = {
+  error: (...args: unknown[]) => log("error", console.error, args),
+  warn: (...args: unknown[]) => log("warn", console.warn, args),
+  info: (...args: unknown[]) => log("info", console.log, args),
+  debug: (...args: unknown[]) => log("debug", console.debug, args),
+};
@@ -0,0 +1,46 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { db } from "./db.server";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver mail, e.g. through SMTP or a mail API
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Write mail to the outbox table instead of sending it, so flows that mail
+// users can be followed and tested without a mail server
+export function createOutboxMailer(): Mailer {
+  return {
+    async send(message) {
+      await db.outboxMessage.create({
+        data: {
+          id: Snowflake.generate(),
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+        },
+      });
+    },
+  };
+}
+
+let mailer: Mailer | undefined;
+
+// Get the mailer every outgoing mail goes through, the outbox by default
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createOutboxMailer();
+  }
+
+  return mailer;
+}
+
+// Replace the mailer, e.g. with one that delivers through SMTP
+export function setMailer(nextMailer: Mailer) {
+  mailer = nextMailer;
+}
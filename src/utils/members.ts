@@ -0,0 +1,33 @@
+import type { Prisma } from "@prisma/client";
+
+// Fields selected for every member returned by the API
+export const memberSelect = {
+  id: true,
+  community: true,
+  user_fk: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  role_fk: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  created_at: true,
+} satisfies Prisma.MemberSelect;
+
+type SelectedMember = Prisma.MemberGetPayload<{ select: typeof memberSelect }>;
+
+// Shape a member the way GET /v1/community/:id/members returns it
+export function toMemberResponse(member: SelectedMember) {
+  return {
+    id: member.id,
+    community: member.community,
+    user: member.user_fk,
+    role: member.role_fk,
+    created_at: member.created_at,
+  };
+}
@@ -0,0 +1,1195 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  changePasswordSchema,
+  forgotPasswordSchema,
+  refreshSchema,
+  resetPasswordSchema,
+  signInSchema,
+  signUpSchema,
+  updateMeSchema,
+  verifyEmailSchema,
+} from "../routes/User";
+import {
+  communityListSchema,
+  communitySchema,
+  memberListSchema,
+  transferSchema,
+  updateCommunitySchema,
+} from "../routes/Community";
+import {
+  addMemberSchema,
+  bulkAddMembersSchema,
+  bulkQuerySchema,
+  bulkRemoveMembersSchema,
+  updateMemberSchema,
+} from "../routes/Member";
+import { roleSchema } from "../routes/Role";
+import { inviteSchema } from "../routes/Invite";
+import { auditListSchema } from "../routes/Audit";
+import { deliveryListSchema, webhookSchema } from "../routes/Webhook";
+import { AUDIT_ACTIONS } from "./audit";
+import { WEBHOOK_EVENTS } from "./webhooks";
+import { PERMISSIONS } from "./permissions";
+import { VISIBILITIES } from "./visibility";
+import { paginationSchema } from "./pagination";
+
+type Method = "get" | "post" | "patch" | "delete";
+
+// A successful response of an operation, without a schema it has no body
+interface OperationResponse {
+  status: number;
+  description: string;
+  schema?: z.ZodTypeAny;
+  // application/json unless set
+  contentType?: string;
+}
+
+// A single documented endpoint, the path is written the way Express mounts it
+export interface Operation {
+  method: Method;
+  path: string;
+  tag: string;
+  summary: string;
+  auth: "none" | "required" | "optional";
+  body?: z.ZodTypeAny;
+  query?: z.AnyZodObject;
+  responses: OperationResponse[];
+  // Error statuses besides the 400 and 401 derived from body, query and auth
+  errors?: number[];
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "The request is invalid, code INVALID_INPUT, or an atomic batch failed, code BATCH_FAILED.",
+  401: "The user is not signed in or the credentials are invalid.",
+  403: "The user is not allowed to perform the action, code NOT_ALLOWED_ACCESS.",
+  404: "The resource does not exist, code RESOURCE_NOT_FOUND.",
+  409: "The request conflicts with an existing resource.",
+  410: "The invite expired or was used up, code INVITE_EXPIRED, or the retention window of a deleted resource is over, code RESTORE_EXPIRED.",
+  429: "Too many requests, the Retry-After header tells when to try again.",
+};
+
+// Shapes of the response bodies
+const timestamp = z.string().datetime();
+
+const reference = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+});
+
+const pageMetaSchema = z.object({
+  total: z.number().int(),
+  pages: z.number().int(),
+  page: z.number().int().nullable(),
+  next_cursor: z.string().nullable(),
+});
+
+const userResponse = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().email(),
+  email_verified_at: timestamp.nullable(),
+  created_at: timestamp,
+});
+
+const tokensResponse = z.object({
+  access_token: z.string(),
+  refresh_token: z.string(),
+});
+
+const roleResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  permissions: z.array(z.enum(PERMISSIONS)),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const communityResponse = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  owner: z.string(),
+  visibility: z.enum(VISIBILITIES),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+// A community the way it is stored, returned after it was changed
+const communityRecordResponse = communityResponse.extend({
+  deleted_at: timestamp.nullable(),
+});
+
+const communitySummaryResponse = communityResponse
+  .omit({ owner: true })
+  .extend({ ownerId: reference });
+
+const memberResponse = z.object({
+  id: z.string(),
+  community: z.string(),
+  user: reference,
+  role: reference,
+  created_at: timestamp,
+});
+
+const newMemberResponse = z.object({
+  id: z.string(),
+  community: z.string(),
+  user: z.string(),
+  role: z.string(),
+  created_at: timestamp,
+});
+
+const inviteResponse = z.object({
+  id: z.string(),
+  community: z.string(),
+  code: z.string(),
+  email: z.string().email().nullable(),
+  max_uses: z.number().int().nullable(),
+  uses: z.number().int(),
+  expires_at: timestamp.nullable(),
+  created_by: z.string(),
+  created_at: timestamp,
+  role_fk: reference,
+});
+
+const joinRequestResponse = z.object({
+  id: z.string(),
+  community: z.string(),
+  user_fk: reference,
+  status: z.enum(["pending", "approved", "rejected"]),
+  decided_by: z.string().nullable(),
+  decided_at: timestamp.nullable(),
+  created_at: timestamp,
+});
+
+const auditEventResponse = z.object({
+  id: z.string(),
+  actor: z.string().nullable(),
+  action: z.enum(AUDIT_ACTIONS),
+  target: z.string(),
+  community: z.string().nullable(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  created_at: timestamp,
+});
+
+const webhookResponse = z.object({
+  id: z.string(),
+  community: z.string(),
+  url: z.string().url(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  created_by: z.string(),
+  created_at: timestamp,
+});
+
+const communityEventPayload = z.object({
+  id: z.string(),
+  event: z.enum(WEBHOOK_EVENTS),
+  community: z.string(),
+  created_at: timestamp,
+  data: z.record(z.unknown()),
+});
+
+const webhookDeliveryResponse = z.object({
+  id: z.string(),
+  webhook: z.string(),
+  event: z.enum(WEBHOOK_EVENTS),
+  payload: communityEventPayload,
+  status: z.enum(["pending", "succeeded", "failed"]),
+  attempts: z.number().int(),
+  next_attempt_at: timestamp,
+  last_status_code: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  delivered_at: timestamp.nullable(),
+  created_at: timestamp,
+});
+
+const errorResponse = z.object({
+  status: z.literal(false),
+  errors: z.array(
+    z.object({
+      param: z.string().optional(),
+      message: z.string(),
+      code: z.string(),
+    })
+  ),
+});
+
+// Wrap a response shape in the { status, content } envelope
+function dataResponse(data: z.ZodTypeAny) {
+  return z.object({ status: z.literal(true), content: z.object({ data }) });
+}
+
+function pageResponse(item: z.ZodTypeAny) {
+  return z.object({
+    status: z.literal(true),
+    content: z.object({ meta: pageMetaSchema, data: z.array(item) }),
+  });
+}
+
+function bulkResponse(item: z.ZodTypeAny) {
+  return z.object({
+    status: z.literal(true),
+    content: z.object({
+      meta: z.object({
+        total: z.number().int(),
+        succeeded: z.number().int(),
+        failed: z.number().int(),
+      }),
+      data: z.array(item),
+    }),
+  });
+}
+
+const emptyResponse = z.object({ status: z.literal(true) });
+
+const authResponse = z.object({
+  status: z.literal(true),
+  content: z.object({ data: userResponse, meta: tokensResponse }),
+});
+
+// Every endpoint of the API, checkOpenApi compares them to the mounted routers
+export const operations: Operation[] = [
+  {
+    method: "get",
+    path: "/healthz",
+    tag: "Health",
+    summary: "Check that the process is up",
+    auth: "none",
+    responses: [
+      { status: 200, description: "The process is up.", schema: emptyResponse },
+    ],
+  },
+  {
+    method: "get",
+    path: "/readyz",
+    tag: "Health",
+    summary: "Check that the process can reach the database and serve requests",
+    auth: "none",
+    responses: [
+      {
+        status: 200,
+        description: "The process is ready.",
+        schema: emptyResponse,
+      },
+      {
+        status: 503,
+        description:
+          "The database is unavailable or the process is shutting down.",
+      },
+    ],
+  },
+  {
+    method: "get",
+    path: "/v1/openapi.json",
+    tag: "Docs",
+    summary: "Get this OpenAPI document",
+    auth: "none",
+    responses: [{ status: 200, description: "The OpenAPI document." }],
+  },
+  {
+    method: "get",
+    path: "/v1/docs",
+    tag: "Docs",
+    summary: "Browse the API documentation",
+    auth: "none",
+    responses: [{ status: 200, description: "An HTML documentation page." }],
+  },
+  {
+    method: "post",
+    path: "/v1/role",
+    tag: "Role",
+    summary: "Create a role",
+    auth: "required",
+    body: roleSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The created role.",
+        schema: dataResponse(roleResponse),
+      },
+    ],
+    errors: [401, 403, 409],
+  },
+  {
+    method: "get",
+    path: "/v1/role",
+    tag: "Role",
+    summary: "List the roles",
+    auth: "none",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of roles.",
+        schema: pageResponse(roleResponse),
+      },
+    ],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/signup",
+    tag: "Auth",
+    summary: "Sign up and start a session",
+    auth: "none",
+    body: signUpSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The new user and its tokens.",
+        schema: authResponse,
+      },
+    ],
+    errors: [409, 429],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/signin",
+    tag: "Auth",
+    summary: "Sign in and start a session",
+    auth: "none",
+    body: signInSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The user and its tokens.",
+        schema: authResponse,
+      },
+    ],
+    errors: [401, 429],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/refresh",
+    tag: "Auth",
+    summary: "Exchange a refresh token for a new token pair",
+    auth: "none",
+    body: refreshSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The new tokens.",
+        schema: z.object({
+          status: z.literal(true),
+          content: z.object({ meta: tokensResponse }),
+        }),
+      },
+    ],
+    errors: [401],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/logout",
+    tag: "Auth",
+    summary: "Revoke the current session",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The session was revoked.",
+        schema: emptyResponse,
+      },
+    ],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/logout/all",
+    tag: "Auth",
+    summary: "Revoke every session of the user",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The sessions were revoked.",
+        schema: emptyResponse,
+      },
+    ],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/password/forgot",
+    tag: "Auth",
+    summary: "Mail a password reset token to the user with this email",
+    auth: "none",
+    body: forgotPasswordSchema,
+    responses: [
+      {
+        status: 200,
+        description: "Sent whether or not an account uses the email.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [429],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/password/reset",
+    tag: "Auth",
+    summary: "Set a new password with a reset token and end every session",
+    auth: "none",
+    body: resetPasswordSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The password was changed.",
+        schema: emptyResponse,
+      },
+    ],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/verify-email",
+    tag: "Auth",
+    summary: "Verify the email address of a user with a verification token",
+    auth: "none",
+    body: verifyEmailSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The user with the verified email address.",
+        schema: dataResponse(userResponse),
+      },
+    ],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/verify-email/resend",
+    tag: "Auth",
+    summary: "Mail the signed in user a new verification token",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The token was mailed.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [404, 409, 429],
+  },
+  {
+    method: "get",
+    path: "/v1/auth/me",
+    tag: "Auth",
+    summary: "Get the signed in user",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The signed in user.",
+        schema: dataResponse(userResponse),
+      },
+    ],
+    errors: [404],
+  },
+  {
+    method: "patch",
+    path: "/v1/auth/me",
+    tag: "Auth",
+    summary: "Change the name or email of the signed in user",
+    auth: "required",
+    body: updateMeSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The updated user, a new email has to be verified again.",
+        schema: dataResponse(userResponse),
+      },
+    ],
+    errors: [404, 409],
+  },
+  {
+    method: "post",
+    path: "/v1/auth/me/password",
+    tag: "Auth",
+    summary: "Change the password and end every other session",
+    auth: "required",
+    body: changePasswordSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The password was changed.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [404, 429],
+  },
+  {
+    method: "delete",
+    path: "/v1/auth/me",
+    tag: "Auth",
+    summary: "Delete the account of the signed in user and their memberships",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The account was deleted.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [409],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/invites",
+    tag: "Invite",
+    summary: "Invite users to a community",
+    auth: "required",
+    body: inviteSchema,
+    responses: [
+      {
+        status: 201,
+        description: "The created invite.",
+        schema: dataResponse(inviteResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/invites",
+    tag: "Invite",
+    summary: "List the outstanding invites of a community",
+    auth: "required",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of the invites that can still be accepted.",
+        schema: pageResponse(inviteResponse),
+      },
+    ],
+    errors: [403],
+  },
+  {
+    method: "delete",
+    path: "/v1/community/:id/invites/:inviteId",
+    tag: "Invite",
+    summary: "Revoke an invite",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The invite was revoked.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community/invites/:code/accept",
+    tag: "Invite",
+    summary: "Join a community with an invite code",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The new member.",
+        schema: dataResponse(memberResponse),
+      },
+    ],
+    errors: [403, 404, 409, 410],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/join",
+    tag: "Join Request",
+    summary: "Join a public community or ask to join one that reviews requests",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The community is public, the user is now a member.",
+        schema: dataResponse(memberResponse),
+      },
+      {
+        status: 202,
+        description: "The join request awaits a decision.",
+        schema: dataResponse(joinRequestResponse),
+      },
+    ],
+    errors: [403, 404, 409],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/join-requests",
+    tag: "Join Request",
+    summary: "List the pending join requests of a community",
+    auth: "required",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of pending join requests.",
+        schema: pageResponse(joinRequestResponse),
+      },
+    ],
+    errors: [403],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/join-requests/:requestId/approve",
+    tag: "Join Request",
+    summary: "Approve a join request",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The approved join request.",
+        schema: dataResponse(joinRequestResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/join-requests/:requestId/reject",
+    tag: "Join Request",
+    summary: "Reject a join request",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The rejected join request.",
+        schema: dataResponse(joinRequestResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/audit",
+    tag: "Audit",
+    summary: "List the audit events of a community, newest first",
+    auth: "required",
+    query: auditListSchema.merge(paginationSchema),
+    responses: [
+      {
+        status: 200,
+        description: "A page of audit events.",
+        schema: pageResponse(auditEventResponse),
+      },
+    ],
+    errors: [403],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/events",
+    tag: "Event",
+    summary: "Follow the events of a community as Server-Sent Events",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description:
+          "A text/event-stream of events, each with its sequence number as the SSE id, its name as the SSE event and this payload as its data. Send the Last-Event-ID header to resume after an event of the last hour, comments are sent every 15 seconds as heartbeats.",
+        schema: communityEventPayload,
+        contentType: "text/event-stream",
+      },
+    ],
+    errors: [400, 403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/webhooks",
+    tag: "Webhook",
+    summary: "Register a webhook for events of a community",
+    auth: "required",
+    body: webhookSchema,
+    responses: [
+      {
+        status: 201,
+        description:
+          "The created webhook with the secret its deliveries are signed with, it is not shown again.",
+        schema: dataResponse(webhookResponse.extend({ secret: z.string() })),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/webhooks",
+    tag: "Webhook",
+    summary: "List the webhooks of a community",
+    auth: "required",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of webhooks of the community.",
+        schema: pageResponse(webhookResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "delete",
+    path: "/v1/community/:id/webhooks/:webhookId",
+    tag: "Webhook",
+    summary: "Delete a webhook and its deliveries",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The webhook was deleted.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/webhooks/:webhookId/deliveries",
+    tag: "Webhook",
+    summary: "List the deliveries of a webhook, newest first",
+    auth: "required",
+    query: deliveryListSchema.merge(paginationSchema),
+    responses: [
+      {
+        status: 200,
+        description: "A page of deliveries.",
+        schema: pageResponse(webhookDeliveryResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+    tag: "Webhook",
+    summary: "Queue a delivery again with the same payload",
+    auth: "required",
+    responses: [
+      {
+        status: 202,
+        description: "The queued delivery.",
+        schema: dataResponse(webhookDeliveryResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community",
+    tag: "Community",
+    summary: "Create a community owned by the signed in user",
+    auth: "required",
+    body: communitySchema,
+    responses: [
+      {
+        status: 201,
+        description: "The created community.",
+        schema: dataResponse(communityRecordResponse),
+      },
+    ],
+    errors: [403],
+  },
+  {
+    method: "get",
+    path: "/v1/community",
+    tag: "Community",
+    summary: "List and search the communities that are not private",
+    auth: "none",
+    query: communityListSchema.merge(paginationSchema),
+    responses: [
+      {
+        status: 200,
+        description: "A page of communities.",
+        schema: pageResponse(communitySummaryResponse),
+      },
+    ],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id/members",
+    tag: "Community",
+    summary: "List the members of a community",
+    auth: "optional",
+    query: memberListSchema.merge(paginationSchema),
+    responses: [
+      {
+        status: 200,
+        description: "A page of members.",
+        schema: pageResponse(memberResponse),
+      },
+    ],
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/v1/community/me/owner",
+    tag: "Community",
+    summary: "List the communities the signed in user owns",
+    auth: "required",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of communities.",
+        schema: pageResponse(communityResponse),
+      },
+    ],
+  },
+  {
+    method: "get",
+    path: "/v1/community/me/member",
+    tag: "Community",
+    summary: "List the communities the signed in user owns or belongs to",
+    auth: "required",
+    query: paginationSchema,
+    responses: [
+      {
+        status: 200,
+        description: "A page of communities.",
+        schema: pageResponse(communitySummaryResponse),
+      },
+    ],
+  },
+  {
+    method: "get",
+    path: "/v1/community/:id",
+    tag: "Community",
+    summary: "Get a community by its ID or slug",
+    auth: "optional",
+    responses: [
+      {
+        status: 200,
+        description: "The community.",
+        schema: dataResponse(communitySummaryResponse),
+      },
+      {
+        status: 301,
+        description:
+          "The slug belonged to the community before a rename, the Location header holds the current URL.",
+      },
+    ],
+    errors: [404],
+  },
+  {
+    method: "patch",
+    path: "/v1/community/:id",
+    tag: "Community",
+    summary: "Rename a community or change its visibility",
+    auth: "required",
+    body: updateCommunitySchema,
+    responses: [
+      {
+        status: 200,
+        description: "The updated community.",
+        schema: dataResponse(communityRecordResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "delete",
+    path: "/v1/community/:id",
+    tag: "Community",
+    summary: "Delete a community, it can be restored until it is purged",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The community was deleted.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/restore",
+    tag: "Community",
+    summary: "Restore a deleted community within the retention window",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The restored community.",
+        schema: dataResponse(communityRecordResponse),
+      },
+    ],
+    errors: [403, 404, 409, 410],
+  },
+  {
+    method: "post",
+    path: "/v1/community/:id/transfer",
+    tag: "Community",
+    summary: "Hand a community over to one of its members",
+    auth: "required",
+    body: transferSchema,
+    responses: [
+      {
+        status: 200,
+        description:
+          "The community with its new owner, the previous owner stays on as a member with the Community Admin role.",
+        schema: dataResponse(communityRecordResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/member",
+    tag: "Member",
+    summary: "Add a user to a community",
+    auth: "required",
+    body: addMemberSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The new member.",
+        schema: dataResponse(newMemberResponse),
+      },
+    ],
+    errors: [403, 404, 409],
+  },
+  {
+    method: "post",
+    path: "/v1/member/bulk",
+    tag: "Member",
+    summary: "Add many users to a community, reporting the outcome of each",
+    auth: "required",
+    body: bulkAddMembersSchema,
+    query: bulkQuerySchema,
+    responses: [
+      {
+        status: 200,
+        description: "The outcome of every entry.",
+        schema: bulkResponse(
+          z.object({
+            user: z.string(),
+            role: z.string(),
+            status: z.enum([
+              "created",
+              "already_member",
+              "duplicate",
+              "user_not_found",
+              "role_not_found",
+              "not_allowed",
+              "email_not_verified",
+            ]),
+            member: z.string().nullable(),
+          })
+        ),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "delete",
+    path: "/v1/member/bulk",
+    tag: "Member",
+    summary:
+      "Remove many users from a community, reporting the outcome of each",
+    auth: "required",
+    body: bulkRemoveMembersSchema,
+    query: bulkQuerySchema,
+    responses: [
+      {
+        status: 200,
+        description: "The outcome of every entry.",
+        schema: bulkResponse(
+          z.object({
+            user: z.string(),
+            status: z.enum([
+              "removed",
+              "not_member",
+              "duplicate",
+              "not_allowed",
+            ]),
+            member: z.string().nullable(),
+          })
+        ),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "patch",
+    path: "/v1/member/:id",
+    tag: "Member",
+    summary: "Change the role of a member",
+    auth: "required",
+    body: updateMemberSchema,
+    responses: [
+      {
+        status: 200,
+        description: "The updated member.",
+        schema: dataResponse(memberResponse),
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "delete",
+    path: "/v1/member/:id",
+    tag: "Member",
+    summary:
+      "Remove a member from a community, it can be restored until it is purged",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The member was removed.",
+        schema: emptyResponse,
+      },
+    ],
+    errors: [403, 404],
+  },
+  {
+    method: "post",
+    path: "/v1/member/:id/restore",
+    tag: "Member",
+    summary: "Restore a removed member within the retention window",
+    auth: "required",
+    responses: [
+      {
+        status: 200,
+        description: "The restored member.",
+        schema: dataResponse(memberResponse),
+      },
+    ],
+    errors: [403, 404, 409, 410],
+  },
+];
+
+// Convert a zod schema to the JSON schema dialect of OpenAPI 3.0
+function toJsonSchema(schema: z.ZodTypeAny) {
+  return zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" });
+}
+
+// Convert the schema of a query parameter without its optional and default
+// wrappers, the required flag of the parameter already says whether it can be
+// left out
+function toParameterSchema(schema: z.ZodTypeAny) {
+  let innerSchema = schema;
+  let defaultValue: unknown;
+
+  while (
+    innerSchema instanceof z.ZodOptional ||
+    innerSchema instanceof z.ZodDefault
+  ) {
+    if (innerSchema instanceof z.ZodDefault) {
+      defaultValue ??= innerSchema._def.defaultValue();
+    }
+
+    innerSchema = innerSchema._def.innerType;
+  }
+
+  return {
+    ...toJsonSchema(innerSchema),
+    ...(defaultValue !== undefined && { default: defaultValue }),
+  };
+}
+
+// Turn an Express path like /community/:id into /community/{id}
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+// Build the OpenAPI operation object of an endpoint
+function toOperationObject(operation: Operation) {
+  const parameters = [
+    ...Array.from(operation.path.matchAll(/:(\w+)/g), ([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })),
+    ...Object.entries(operation.query?.shape ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: !(schema as z.ZodTypeAny).isOptional(),
+      schema: toParameterSchema(schema as z.ZodTypeAny),
+    })),
+  ];
+
+  const responses: Record<string, unknown> = {};
+
+  for (const {
+    status,
+    description,
+    schema,
+    contentType = "application/json",
+  } of operation.responses) {
+    responses[status] = {
+      description,
+      ...(schema && {
+        content: { [contentType]: { schema: toJsonSchema(schema) } },
+      }),
+    };
+  }
+
+  // Validation and authentication errors follow from the operation itself
+  const errors = new Set(operation.errors);
+
+  if (operation.body || operation.query) {
+    errors.add(400);
+  }
+
+  if (operation.auth === "required") {
+    errors.add(401);
+  }
+
+  for (const status of Array.from(errors).sort((a, b) => a - b)) {
+    responses[status] = {
+      description: ERROR_DESCRIPTIONS[status],
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/ErrorResponse" },
+        },
+      },
+    };
+  }
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.auth === "required" && { security: [{ bearerAuth: [] }] }),
+    ...(operation.auth === "optional" && {
+      security: [{}, { bearerAuth: [] }],
+    }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: toJsonSchema(operation.body) },
+        },
+      },
+    }),
+    responses,
+  };
+}
+
+// Build the OpenAPI document describing every operation
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of operations) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = {
+      ...paths[path],
+      [operation.method]: toOperationObject(operation),
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "The Internet Folks API",
+      version: "1.0.0",
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: {
+        ErrorResponse: toJsonSchema(errorResponse),
+      },
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import type { Request } from "express";
+import { z } from "zod";
+import { config } from "./config";
+
+// Define the query string schema shared by every list endpoint
+export const paginationSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(config.maxPageSize)
+    .default(config.defaultPageSize),
+  // ID of the last item of the previous page, takes precedence over page
+  cursor: z.string().min(1).optional(),
+});
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+// Sort orders accepted by the ?sort= parameter of list endpoints
+export const SORT_OPTIONS = ["created_at", "-created_at", "name"] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+export interface PaginationArgs {
+  take: number;
+  skip: number;
+  cursor?: { id: string };
+}
+
+// Read the pagination parameters from the query string, throws a ZodError when invalid
+export function getPagination(query: Request["query"]): Pagination {
+  return paginationSchema.parse(query);
+}
+
+// Build the findMany arguments for a page, fetching one extra row to know
+// whether another page follows. Snowflake IDs sort by creation time, so the
+// default order is by ID.
+export function getPaginationArgs(pagination: Pagination): PaginationArgs {
+  const take = pagination.limit + 1;
+
+  if (pagination.cursor) {
+    return { take, skip: 1, cursor: { id: pagination.cursor } };
+  }
+
+  return { take, skip: (pagination.page - 1) * pagination.limit };
+}
+
+// Build the meta and data of a page from the rows fetched with getPaginationArgs
+export function buildPage<T extends { id: string }>(
+  rows: T[],
+  total: number,
+  pagination: Pagination
+) {
+  const data = rows.slice(0, pagination.limit);
+  const hasNextPage = rows.length > pagination.limit;
+
+  return {
+    meta: {
+      total,
+      pages: Math.ceil(total / pagination.limit),
+      page: pagination.cursor ? null : pagination.page,
+      next_cursor: hasNextPage ? data[data.length - 1].id : null,
+    },
+    data,
+  };
+}
@@ -0,0 +1,165 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db.server";
+
+// Every permission a role can grant inside a community
+export const PERMISSIONS = [
+  "community:edit",
+  "member:add",
+  "member:remove",
+  "role:assign",
+  "audit:view",
+  "webhook:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// The role given to users who join a community on their own
+export const DEFAULT_MEMBER_ROLE = "Community Member";
+
+// The role previous owners keep after handing a community over
+export const DEFAULT_ADMIN_ROLE = "Community Admin";
+
+// The roles every deployment starts with
+export const DEFAULT_ROLES: { name: string; permissions: Permission[] }[] = [
+  { name: DEFAULT_ADMIN_ROLE, permissions: [...PERMISSIONS] },
+  { name: "Community Moderator", permissions: ["member:remove"] },
+  { name: DEFAULT_MEMBER_ROLE, permissions: [] },
+];
+
+// Parse the permissions column of a role, ignoring anything unknown
+export function parsePermissions(value: string): Permission[] {
+  return value
+    .split(",")
+    .filter((permission): permission is Permission =>
+      (PERMISSIONS as readonly string[]).includes(permission)
+    );
+}
+
+// Serialize a list of permissions for the permissions column of a role
+export function serializePermissions(permissions: Permission[]): string {
+  return Array.from(new Set(permissions)).join(",");
+}
+
+// Check whether a role name belongs to one of the default roles
+export function isDefaultRoleName(name: string): boolean {
+  return DEFAULT_ROLES.some(
+    (role) => role.name.toLowerCase() === name.trim().toLowerCase()
+  );
+}
+
+// Get a default role, creating it if needed and resetting its permissions to
+// the standard ones
+async function upsertDefaultRole(
+  name: string,
+  client: Prisma.TransactionClient = db
+) {
+  const role = DEFAULT_ROLES.find((defaultRole) => defaultRole.name === name)!;
+  const permissions = serializePermissions(role.permissions);
+
+  return client.role.upsert({
+    where: { name },
+    update: { permissions },
+    create: { id: Snowflake.generate(), name, permissions },
+  });
+}
+
+// Create the default roles that are missing and reset their permissions
+export async function ensureDefaultRoles() {
+  return Promise.all(DEFAULT_ROLES.map((role) => upsertDefaultRole(role.name)));
+}
+
+// Get the role given to users who join a community on their own, creating it
+// if needed. Its permissions are reset, so it never grants any.
+export async function getDefaultMemberRole(
+  client: Prisma.TransactionClient = db
+) {
+  return upsertDefaultRole(DEFAULT_MEMBER_ROLE, client);
+}
+
+// Get the role previous owners keep, creating it if needed
+export async function getDefaultAdminRole(
+  client: Prisma.TransactionClient = db
+) {
+  return upsertDefaultRole(DEFAULT_ADMIN_ROLE, client);
+}
+
+// Get the permissions a user holds in a community, the owner holds them all.
+// Nobody holds any permission in a deleted community unless includeDeleted is
+// set, e.g. to restore it.
+export async function getPermissions(
+  userId: string,
+  communityId: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<Set<Permission>> {
+  const community = await db.community.findFirst({
+    where: {
+      id: communityId,
+      ...(!options.includeDeleted && { deleted_at: null }),
+    },
+    select: { owner: true },
+  });
+
+  if (!community) {
+    return new Set();
+  }
+
+  if (community.owner === userId) {
+    return new Set(PERMISSIONS);
+  }
+
+  const member = await db.member.findFirst({
+    where: { community: communityId, user: userId, deleted_at: null },
+    include: { role_fk: { select: { permissions: true } } },
+  });
+
+  return new Set(member ? parsePermissions(member.role_fk.permissions) : []);
+}
+
+// Get every permission a user holds in at least one community, owning a
+// community grants them all
+export async function getGrantablePermissions(
+  userId: string
+): Promise<Set<Permission>> {
+  const ownedCommunity = await db.community.findFirst({
+    where: { owner: userId, deleted_at: null },
+    select: { id: true },
+  });
+
+  if (ownedCommunity) {
+    return new Set(PERMISSIONS);
+  }
+
+  const memberships = await db.member.findMany({
+    where: {
+      user: userId,
+      deleted_at: null,
+      community_fk: { deleted_at: null },
+    },
+    include: { role_fk: { select: { permissions: true } } },
+  });
+
+  return new Set(
+    memberships.flatMap((member) =>
+      parsePermissions(member.role_fk.permissions)
+    )
+  );
+}
+
+// Check whether a set of granted permissions covers every required permission
+export function holdsAll(
+  granted: Set<Permission>,
+  required: Permission[]
+): boolean {
+  return required.every((permission) => granted.has(permission));
+}
+
+// Check whether a user holds a permission in a community
+export async function can(
+  userId: string,
+  communityId: string,
+  permission: Permission
+): Promise<boolean> {
+  const permissions = await getPermissions(userId, communityId);
+  return permissions.has(permission);
+}
@@ -0,0 +1,220 @@
+import type { Request } from "express";
+import { Prisma } from "@prisma/client";
+import { db } from "./db.server";
+import { TooManyRequestsError, asyncHandler } from "./errors";
+import { config } from "./config";
+
+// The hits counted for a key in its current window
+export interface RateLimitBucket {
+  count: number;
+  resetAt: Date;
+}
+
+// Where the counters live, the memory store only sees the hits of one process
+export interface RateLimitStore {
+  // Count a hit, starting a new window when the previous one is over
+  hit(key: string, windowMs: number): Promise<RateLimitBucket>;
+  // Get the current window of a key without counting a hit
+  get(key: string): Promise<RateLimitBucket | null>;
+  reset(key: string): Promise<void>;
+}
+
+// How often the memory store drops windows that are over
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Keep the counters in the memory of this process
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitBucket>();
+
+  const sweep = setInterval(() => {
+    const now = new Date();
+
+    buckets.forEach((bucket, key) => {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+      }
+    });
+  }, SWEEP_INTERVAL_MS);
+
+  // Do not keep the process alive just to sweep
+  sweep.unref();
+
+  return {
+    async hit(key, windowMs) {
+      const now = new Date();
+      const bucket = buckets.get(key);
+
+      if (!bucket || bucket.resetAt <= now) {
+        const freshBucket = {
+          count: 1,
+          resetAt: new Date(now.getTime() + windowMs),
+        };
+        buckets.set(key, freshBucket);
+        return freshBucket;
+      }
+
+      bucket.count += 1;
+      return bucket;
+    },
+
+    async get(key) {
+      const bucket = buckets.get(key);
+      return bucket && bucket.resetAt > new Date() ? bucket : null;
+    },
+
+    async reset(key) {
+      buckets.delete(key);
+    },
+  };
+}
+
+// Keep the counters in the database so every process shares them
+export function createDatabaseStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const now = new Date();
+
+      // Count the hit in the current window of the key, a single update so
+      // concurrent hits do not overwrite each other
+      const countHit = async () => {
+        const { count } = await db.rateLimitBucket.updateMany({
+          where: { key, reset_at: { gt: now } },
+          data: { count: { increment: 1 } },
+        });
+
+        return count > 0
+          ? db.rateLimitBucket.findUnique({ where: { key } })
+          : null;
+      };
+
+      let bucket = await countHit();
+
+      if (!bucket) {
+        // Drop every window that is over while starting a new one
+        await db.rateLimitBucket.deleteMany({
+          where: { reset_at: { lte: now } },
+        });
+
+        try {
+          bucket = await db.rateLimitBucket.create({
+            data: {
+              key,
+              count: 1,
+              reset_at: new Date(now.getTime() + windowMs),
+            },
+          });
+        } catch (error) {
+          // Another request started the window first, count the hit in it
+          if (
+            !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+            error.code !== "P2002"
+          ) {
+            throw error;
+          }
+
+          bucket = await countHit();
+        }
+      }
+
+      if (!bucket) {
+        throw new Error(`Could not count a hit of rate limit ${key}`);
+      }
+
+      return { count: bucket.count, resetAt: bucket.reset_at };
+    },
+
+    async get(key) {
+      const bucket = await db.rateLimitBucket.findUnique({ where: { key } });
+
+      if (!bucket || bucket.reset_at <= new Date()) {
+        return null;
+      }
+
+      return { count: bucket.count, resetAt: bucket.reset_at };
+    },
+
+    async reset(key) {
+      await db.rateLimitBucket.deleteMany({ where: { key } });
+    },
+  };
+}
+
+let store: RateLimitStore | undefined;
+
+// Get the store picked by RATE_LIMIT_STORE
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store =
+      config.rateLimitStore === "database"
+        ? createDatabaseStore()
+        : createMemoryStore();
+  }
+
+  return store;
+}
+
+// Seconds until a window is over, rounded up for the Retry-After header
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+interface RateLimitOptions {
+  // Prefix of the keys, keeps the counters of different limits apart
+  name: string;
+  max: number;
+  windowMs: number;
+  // What to count the hits of, the IP address of the caller by default
+  key?: (req: Request) => string;
+}
+
+// Middleware rejecting requests over the limit with a 429
+export function rateLimit(options: RateLimitOptions) {
+  const getKey = options.key ?? ((req: Request) => req.ip);
+
+  return asyncHandler(async (req, res, next) => {
+    const bucket = await getRateLimitStore().hit(
+      `${options.name}:${getKey(req)}`,
+      options.windowMs
+    );
+
+    if (bucket.count > options.max) {
+      throw new TooManyRequestsError(
+        "Too many requests, please try again later.",
+        secondsUntil(bucket.resetAt)
+      );
+    }
+
+    next();
+  });
+}
+
+// Failed sign ins after which an account is locked, and for how long
+const MAX_SIGNIN_FAILURES = 5;
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+function getLockoutKey(email: string): string {
+  return `signin-failures:${email.toLowerCase()}`;
+}
+
+// Reject sign ins to an account while it is locked out, whether it exists or not
+export async function assertNotLockedOut(email: string) {
+  const failures = await getRateLimitStore().get(getLockoutKey(email));
+
+  if (failures && failures.count >= MAX_SIGNIN_FAILURES) {
+    throw new TooManyRequestsError(
+      "Too many failed sign in attempts, please try again later.",
+      secondsUntil(failures.resetAt),
+      { param: "email", code: "ACCOUNT_LOCKED" }
+    );
+  }
+}
+
+// Count a failed sign in towards the lockout of the account
+export async function recordFailedSignIn(email: string) {
+  await getRateLimitStore().hit(getLockoutKey(email), LOCKOUT_WINDOW_MS);
+}
+
+// Forget the failed sign ins of the account after a successful one
+export async function clearFailedSignIns(email: string) {
+  await getRateLimitStore().reset(getLockoutKey(email));
+}
@@ -1,69 +1,260 @@
-import { db } from "./db.server";
+import { parseArgs } from "util";
+import bcrypt from "bcrypt";
 import { Snowflake } from "@theinternetfolks/snowflake";
-import { faker } from '@faker-js/faker';
-import {User,Community,Role,Member} from '../../types.d';
+import { faker } from "@faker-js/faker";
+import type { Community, User } from "@prisma/client";
+import { db } from "./db.server";
+import { config } from "./config";
+import {
+  DEFAULT_ADMIN_ROLE,
+  DEFAULT_MEMBER_ROLE,
+  ensureDefaultRoles,
+} from "./permissions";
+import { slugify } from "./slug";
+
+const USAGE = `Usage: npm run seed -- [options]
+
+  --users <n>        Users to create (default 10)
+  --communities <n>  Communities to create (default 5)
+  --members <n>      Members per community besides its owner (default 3)
+  --seed <n>         Faker seed, the same seed yields the same data (default 42)
+  --password <text>  Password of every seeded user (default password123)
+  --reset            Delete all data before seeding
+  --help             Show this message`;
+
+// Read the command line options
+function getOptions() {
+  const { values } = parseArgs({
+    options: {
+      users: { type: "string", default: "10" },
+      communities: { type: "string", default: "5" },
+      members: { type: "string", default: "3" },
+      seed: { type: "string", default: "42" },
+      password: { type: "string", default: "password123" },
+      reset: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const toCount = (name: string, value: string | undefined) => {
+    const count = Number(value);
+
+    if (!Number.isInteger(count) || count < 0) {
+      console.error(`--${name} should be a whole number\n\n${USAGE}`);
+      process.exit(1);
+    }
+
+    return count;
+  };
 
+  const options = {
+    users: toCount("users", values.users),
+    communities: toCount("communities", values.communities),
+    members: toCount("members", values.members),
+    seed: toCount("seed", values.seed),
+    password: values.password as string,
+    reset: values.reset as boolean,
+  };
+
+  // Every community needs an owner
+  if (options.communities > 0 && options.users === 0) {
+    console.error("--communities needs at least one user");
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// Make a value unique among the values seen so far by appending -2, -3, ...
+function makeUnique(value: string, seen: Set<string>): string {
+  let candidate = value;
+
+  for (let suffix = 2; seen.has(candidate); suffix++) {
+    const [localPart, domain] = value.split("@");
+    candidate = domain
+      ? `${localPart}-${suffix}@${domain}`
+      : `${value}-${suffix}`;
+  }
+
+  seen.add(candidate);
+  return candidate;
+}
+
+// Delete every row, children before the rows they point at
+async function resetDatabase() {
+  await db.$transaction([
+    db.auditEvent.deleteMany(),
+    db.communityEvent.deleteMany(),
+    db.webhookDelivery.deleteMany(),
+    db.webhook.deleteMany(),
+    db.rateLimitBucket.deleteMany(),
+    db.outboxMessage.deleteMany(),
+    db.userToken.deleteMany(),
+    db.refreshToken.deleteMany(),
+    db.session.deleteMany(),
+    db.joinRequest.deleteMany(),
+    db.invite.deleteMany(),
+    db.member.deleteMany(),
+    db.communitySlug.deleteMany(),
+    db.community.deleteMany(),
+    db.role.deleteMany(),
+    db.user.deleteMany(),
+  ]);
+}
 
 async function seedData() {
-  // Seed Users
+  const options = getOptions();
+
+  // The same seed generates the same names, emails and slugs on every run
+  faker.seed(options.seed);
+
+  if (options.reset) {
+    await resetDatabase();
+    console.log("Deleted all data.");
+  }
+
+  // Seed the canonical roles
+  const roles = await ensureDefaultRoles();
+  const roleByName = new Map(roles.map((role) => [role.name, role]));
+
+  // Seed users that can sign in with the known password
+  const hashedPassword = await bcrypt.hash(
+    options.password,
+    config.bcryptRounds
+  );
+  const seenEmails = new Set<string>();
   const users: User[] = [];
-  for (let i = 0; i < 10; i++) {
-    const user: User = {
-      id: Snowflake.generate(),
-      name: faker.person.fullName(),
-      email: faker.internet.email(),
-      password: faker.internet.password(),
-      created_at: new Date(),
-    };
+
+  for (let i = 0; i < options.users; i++) {
+    const firstName = faker.person.firstName();
+    const lastName = faker.person.lastName();
+    const email = makeUnique(
+      faker.internet
+        .email({ firstName, lastName, provider: "example.com" })
+        .toLowerCase(),
+      seenEmails
+    );
+
+    const user = await db.user.upsert({
+      where: { email },
+      update: {
+        name: `${firstName} ${lastName}`,
+        password: hashedPassword,
+      },
+      create: {
+        id: Snowflake.generate(),
+        name: `${firstName} ${lastName}`,
+        email,
+        password: hashedPassword,
+        email_verified_at: new Date(),
+      },
+    });
     users.push(user);
   }
-  await Promise.all(users.map((user) => db.user.create({ data: user })));
 
-  // Seed Communities
+  // Seed communities, owned by the users in turn
+  const seenSlugs = new Set<string>();
+  const seededUserIds = new Set(users.map((user) => user.id));
   const communities: Community[] = [];
-  for (let i = 0; i < 5; i++) {
-    const community: Community = {
-      id: Snowflake.generate(),
-      name: faker.company.name(),
-      slug: faker.lorem.slug(),
-      owner: users[i].id,
-      created_at: new Date(),
-      updated_at: new Date(),
-    };
+
+  for (let i = 0; i < options.communities; i++) {
+    const name = faker.company.name();
+    const owner = users[i % users.length];
+
+    // Only update communities owned by seeded users, a slug taken by anyone
+    // else gets a suffix instead
+    let slug = makeUnique(slugify(name), seenSlugs);
+    let existingCommunity = await db.community.findUnique({
+      where: { slug },
+      select: { owner: true },
+    });
+
+    while (existingCommunity && !seededUserIds.has(existingCommunity.owner)) {
+      slug = makeUnique(slugify(name), seenSlugs);
+      existingCommunity = await db.community.findUnique({
+        where: { slug },
+        select: { owner: true },
+      });
+    }
+
+    const community = await db.community.upsert({
+      where: { slug },
+      update: { name, owner: owner.id, deleted_at: null },
+      create: {
+        id: Snowflake.generate(),
+        name,
+        slug,
+        owner: owner.id,
+      },
+    });
     communities.push(community);
   }
-  await Promise.all(communities.map((community) => db.community.create({ data: community })));
-
-  // Seed Roles
-  const roles: Role[] = [];
-  for (let i = 0; i < 3; i++) {
-    const role: Role = {
-      id: Snowflake.generate(),
-      name: faker.person.jobTitle(),
-      created_at: new Date(),
-      updated_at: new Date(),
-    };
-    roles.push(role);
-  }
-  await Promise.all(roles.map((role) => db.role.create({ data: role })));
 
-  // Seed Members
-  const members: Member[] = [];
-  for (const community of communities) {
-    for (let i = 0; i < 3; i++) {
-      const member: Member = {
-        id: Snowflake.generate(),
-        community: community.id,
-        user: users[i].id,
-        role: roles[i].id,
-        created_at: new Date(),
-      };
-      members.push(member);
+  // Seed members, the first is an admin, the second a moderator and the
+  // rest plain members
+  const memberRoles = [
+    roleByName.get(DEFAULT_ADMIN_ROLE)!,
+    roleByName.get("Community Moderator")!,
+    roleByName.get(DEFAULT_MEMBER_ROLE)!,
+  ];
+  let memberCount = 0;
+
+  for (const [index, community] of communities.entries()) {
+    const candidates = users.filter((user) => user.id !== community.owner);
+    const count = Math.min(options.members, candidates.length);
+
+    for (let i = 0; i < count; i++) {
+      const user = candidates[(index + i) % candidates.length];
+      const role = memberRoles[Math.min(i, memberRoles.length - 1)];
+
+      const existingMember = await db.member.findFirst({
+        where: { community: community.id, user: user.id },
+      });
+
+      if (existingMember) {
+        await db.member.update({
+          where: { id: existingMember.id },
+          data: { role: role.id, deleted_at: null },
+        });
+      } else {
+        await db.member.create({
+          data: {
+            id: Snowflake.generate(),
+            community: community.id,
+            user: user.id,
+            role: role.id,
+          },
+        });
+      }
+
+      memberCount++;
     }
   }
-  await Promise.all(members.map((member) => db.member.create({ data: member })));
 
-  console.log("Seed data completed successfully.");
+  console.log(
+    `Seeded ${roles.length} roles, ${users.length} users, ${communities.length} communities and ${memberCount} members.`
+  );
+
+  // Print the accounts so they can be used to sign in
+  if (users.length > 0) {
+    console.log(
+      `\nEvery seeded user signs in with the password "${options.password}":`
+    );
+    console.table(
+      users.map((user) => ({
+        email: user.email,
+        owns: communities
+          .filter((community) => community.owner === user.id)
+          .map((community) => community.slug)
+          .join(", "),
+      }))
+    );
+  }
 }
 
 seedData()
@@ -74,4 +265,3 @@ seedData()
   .finally(async () => {
     await db.$disconnect();
   });
-
@@ -0,0 +1,108 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { db } from "./db.server";
+import { generateAccessToken } from "./auth";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+// Refresh tokens expire after 30 days
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Issue a new refresh token for the session and return it in plain text
+async function issueRefreshToken(sessionId: string): Promise<string> {
+  const refreshToken = generateOpaqueToken();
+
+  await db.refreshToken.create({
+    data: {
+      id: Snowflake.generate(),
+      session: sessionId,
+      token_hash: hashToken(refreshToken),
+      expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  return refreshToken;
+}
+
+// Start a new session for the user and return its access and refresh tokens
+export async function createSession(userId: string): Promise<SessionTokens> {
+  const session = await db.session.create({
+    data: {
+      id: Snowflake.generate(),
+      user: userId,
+    },
+  });
+
+  const refreshToken = await issueRefreshToken(session.id);
+
+  return {
+    accessToken: generateAccessToken(userId, session.id),
+    refreshToken,
+  };
+}
+
+// Exchange a refresh token for a new token pair, revoking the session if the token was already used
+export async function rotateRefreshToken(
+  refreshToken: string
+): Promise<SessionTokens | null> {
+  const existingToken = await db.refreshToken.findUnique({
+    where: { token_hash: hashToken(refreshToken) },
+    include: { session_fk: true },
+  });
+
+  if (!existingToken || existingToken.session_fk.revoked_at) {
+    return null;
+  }
+
+  // Mark the token as used, only one concurrent request can win this update
+  const { count } = await db.refreshToken.updateMany({
+    where: { id: existingToken.id, rotated_at: null },
+    data: { rotated_at: new Date() },
+  });
+
+  if (count === 0) {
+    // The token was presented twice, so assume it leaked and kill the session
+    await revokeSession(existingToken.session);
+    return null;
+  }
+
+  if (existingToken.expires_at < new Date()) {
+    return null;
+  }
+
+  const newRefreshToken = await issueRefreshToken(existingToken.session);
+
+  return {
+    accessToken: generateAccessToken(
+      existingToken.session_fk.user,
+      existingToken.session
+    ),
+    refreshToken: newRefreshToken,
+  };
+}
+
+// Revoke a single session
+export async function revokeSession(sessionId: string): Promise<void> {
+  await db.session.updateMany({
+    where: { id: sessionId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+}
+
+// Revoke every session of the user, except the one to keep if given
+export async function revokeAllSessions(
+  userId: string,
+  keepSessionId?: string
+): Promise<void> {
+  await db.session.updateMany({
+    where: {
+      user: userId,
+      revoked_at: null,
+      ...(keepSessionId && { id: { not: keepSessionId } }),
+    },
+    data: { revoked_at: new Date() },
+  });
+}
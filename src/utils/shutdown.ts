@@ -0,0 +1,64 @@
+import type { Server } from "http";
+import { db } from "./db.server";
+import { logger } from "./logger";
+
+// How long in-flight requests get to finish before the process gives up
+const SHUTDOWN_TIMEOUT_MS = 10 * 1000;
+
+let shuttingDown = false;
+
+// Whether the process is draining, readiness checks fail from then on
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+// Work to wind down once no new connections are accepted, such as background
+// jobs and long-lived event streams
+type ShutdownHook = () => Promise<void>;
+
+// Stop accepting connections, let in-flight requests and background jobs
+// finish and disconnect from the database, then exit
+async function shutdown(server: Server, hooks: ShutdownHook[], signal: string) {
+  if (shuttingDown) {
+    return;
+  }
+
+  shuttingDown = true;
+  logger.info(`Received ${signal}, shutting down`);
+
+  // Exit anyway if requests do not finish in time
+  setTimeout(() => {
+    logger.error("Timed out waiting for requests to finish");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  const closed = new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    // Keep-alive connections without a request in flight would hold close up
+    server.closeIdleConnections();
+  });
+
+  for (const hook of hooks) {
+    await hook();
+  }
+
+  await closed;
+
+  await db.$disconnect();
+  process.exit(0);
+}
+
+// Shut the server down gracefully on SIGTERM and SIGINT
+export function registerGracefulShutdown(
+  server: Server,
+  hooks: ShutdownHook[] = []
+) {
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => {
+      shutdown(server, hooks, signal).catch((error) => {
+        logger.error("Error while shutting down:", error);
+        process.exit(1);
+      });
+    });
+  }
+}
@@ -0,0 +1,138 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "./db.server";
+
+// Slug used when nothing of the name survives slugification
+const FALLBACK_SLUG = "community";
+
+// Longest base slug we generate, leaving room for a disambiguating suffix
+const MAX_SLUG_LENGTH = 60;
+
+// Characters that do not decompose into ASCII letters
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", ł: "l", đ: "d", ð: "d", þ: "th", ı: "i",
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "e", ж: "zh", з: "z",
+  и: "i", й: "y", к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r",
+  с: "s", т: "t", у: "u", ф: "f", х: "kh", ц: "ts", ч: "ch", ш: "sh",
+  щ: "shch", ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya", є: "ye",
+  і: "i", ї: "yi", ґ: "g",
+  α: "a", β: "v", γ: "g", δ: "d", ε: "e", ζ: "z", η: "i", θ: "th", ι: "i",
+  κ: "k", λ: "l", μ: "m", ν: "n", ξ: "x", ο: "o", π: "p", ρ: "r", σ: "s",
+  ς: "s", τ: "t", υ: "y", φ: "f", χ: "ch", ψ: "ps", ω: "o",
+};
+
+// Turn a name into a URL safe slug made of lowercase ASCII letters, digits and dashes
+export function slugify(name: string): string {
+  const slug = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\x00-\x7f]/g, (char) => TRANSLITERATIONS[char] ?? "-")
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, "");
+
+  return slug || FALLBACK_SLUG;
+}
+
+// Generate a slug for the name that no other community uses now or used before,
+// appending -2, -3, ... on conflict
+export async function generateUniqueSlug(
+  name: string,
+  communityId?: string,
+  client: Prisma.TransactionClient = db
+): Promise<string> {
+  const base = slugify(name);
+
+  // Fetch the base and the slugs with a suffix after it in one go
+  const sharingBase = {
+    OR: [{ slug: base }, { slug: { startsWith: `${base}-` } }],
+  };
+  const [communities, oldSlugs] = await Promise.all([
+    client.community.findMany({
+      where: sharingBase,
+      select: { id: true, slug: true },
+    }),
+    client.communitySlug.findMany({
+      where: sharingBase,
+      select: { community: true, slug: true },
+    }),
+  ]);
+
+  // A community may keep its current slug or take back one of its old ones
+  const taken = [
+    ...communities
+      .filter((community) => community.id !== communityId)
+      .map((community) => community.slug),
+    ...oldSlugs
+      .filter((oldSlug) => oldSlug.community !== communityId)
+      .map((oldSlug) => oldSlug.slug),
+  ];
+
+  if (!taken.includes(base)) {
+    return base;
+  }
+
+  // Only numeric suffixes can clash, e.g. my-club-2 but not my-club-house
+  const takenSuffixes = new Set(
+    taken
+      .map((slug) => slug.slice(base.length + 1))
+      .filter((suffix) => /^\d+$/.test(suffix))
+      .map(Number)
+  );
+
+  let suffix = 2;
+  while (takenSuffixes.has(suffix)) {
+    suffix++;
+  }
+
+  return `${base}-${suffix}`;
+}
+
+// Remember the previous slug of a renamed community and release the new one
+// from its history
+export async function recordSlugChange(
+  communityId: string,
+  previousSlug: string,
+  newSlug: string,
+  client: Prisma.TransactionClient = db
+): Promise<void> {
+  if (previousSlug === newSlug) {
+    return;
+  }
+
+  await client.communitySlug.deleteMany({
+    where: { slug: newSlug, community: communityId },
+  });
+
+  await client.communitySlug.upsert({
+    where: { slug: previousSlug },
+    update: { community: communityId },
+    create: { slug: previousSlug, community: communityId },
+  });
+}
+
+// Find the community that used to be reachable under a slug, unless it was
+// deleted
+export async function findCommunityByOldSlug(slug: string) {
+  const oldSlug = await db.communitySlug.findUnique({
+    where: { slug },
+    include: {
+      community_fk: {
+        select: {
+          id: true,
+          slug: true,
+          owner: true,
+          visibility: true,
+          deleted_at: true,
+        },
+      },
+    },
+  });
+
+  if (!oldSlug || oldSlug.community_fk.deleted_at) {
+    return null;
+  }
+
+  const { deleted_at, ...community } = oldSlug.community_fk;
+  return community;
+}
@@ -0,0 +1,101 @@
+import type { Prisma } from "@prisma/client";
+import { db } from "./db.server";
+import { ApiError } from "./errors";
+import { config } from "./config";
+import { logger } from "./logger";
+
+// How often deleted communities and members past the retention window are
+// looked for
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function getRetentionMs(): number {
+  return config.softDeleteRetentionDays * 24 * 60 * 60 * 1000;
+}
+
+// When a deleted community or member is purged and can no longer be restored
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getRetentionMs());
+}
+
+// Reject restoring a community or member whose retention window is over
+export function assertRestorable(deletedAt: Date) {
+  if (getPurgeDate(deletedAt) <= new Date()) {
+    throw new ApiError(
+      410,
+      "RESTORE_EXPIRED",
+      "The retention window is over, this can no longer be restored."
+    );
+  }
+}
+
+// Delete a community for good together with everything that belongs to it.
+// Audit and stream events are kept, they do not point at the community.
+export async function purgeCommunity(
+  id: string,
+  client: Prisma.TransactionClient
+) {
+  await client.webhookDelivery.deleteMany({
+    where: { webhook_fk: { community: id } },
+  });
+  await client.webhook.deleteMany({ where: { community: id } });
+  await client.member.deleteMany({ where: { community: id } });
+  await client.invite.deleteMany({ where: { community: id } });
+  await client.joinRequest.deleteMany({ where: { community: id } });
+  await client.communitySlug.deleteMany({ where: { community: id } });
+  await client.community.delete({ where: { id } });
+}
+
+// Delete the communities and members whose retention window is over
+export async function purgeSoftDeleted() {
+  const cutoff = new Date(Date.now() - getRetentionMs());
+
+  const communities = await db.community.findMany({
+    where: { deleted_at: { lt: cutoff } },
+    select: { id: true },
+  });
+
+  for (const community of communities) {
+    await db.$transaction((tx) => purgeCommunity(community.id, tx));
+  }
+
+  const { count: members } = await db.member.deleteMany({
+    where: { deleted_at: { lt: cutoff } },
+  });
+
+  if (communities.length > 0 || members > 0) {
+    logger.info(
+      `Purged ${communities.length} deleted communities and ${members} deleted members`
+    );
+  }
+}
+
+// Purge in the background, the returned function stops purging and waits for
+// a purge that is running
+export function startPurgeJob(intervalMs = PURGE_INTERVAL_MS) {
+  let running: Promise<void> | null = null;
+
+  const purge = () => {
+    // Skip a run while the previous one is still purging
+    if (running) {
+      return;
+    }
+
+    running = purgeSoftDeleted()
+      .catch((error) =>
+        logger.error("Error while purging deleted rows:", error)
+      )
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  const timer = setInterval(purge, intervalMs);
+
+  // Catch up on anything that expired while the server was down
+  purge();
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}
@@ -0,0 +1,16 @@
+import crypto from "crypto";
+
+// Generate a random opaque token to hand out to clients
+export function generateOpaqueToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+// Hash an opaque token so only the digest is kept in the database
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Generate a short URL safe code that is meant to be shared, such as an invite code
+export function generateShareableCode(): string {
+  return crypto.randomBytes(9).toString("base64url");
+}
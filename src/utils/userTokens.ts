@@ -0,0 +1,63 @@
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db.server";
+import { generateOpaqueToken, hashToken } from "./tokens";
+
+// What a single use token can be redeemed for
+export type UserTokenPurpose = "password_reset" | "email_verification";
+
+// Issue a token for the user and return it in plain text, tokens issued
+// earlier for the same purpose stop working
+export async function issueUserToken(
+  userId: string,
+  purpose: UserTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  const token = generateOpaqueToken();
+
+  await db.$transaction([
+    db.userToken.updateMany({
+      where: { user: userId, purpose, used_at: null },
+      data: { used_at: new Date() },
+    }),
+    db.userToken.create({
+      data: {
+        id: Snowflake.generate(),
+        user: userId,
+        purpose,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + ttlMs),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+// Use up a token and return the ID of its user, or null when the token is
+// unknown, expired or already used
+export async function consumeUserToken(
+  token: string,
+  purpose: UserTokenPurpose,
+  client: Prisma.TransactionClient = db
+): Promise<string | null> {
+  const existingToken = await client.userToken.findUnique({
+    where: { token_hash: hashToken(token) },
+  });
+
+  if (!existingToken || existingToken.purpose !== purpose) {
+    return null;
+  }
+
+  // Only one concurrent request can mark the token as used
+  const { count } = await client.userToken.updateMany({
+    where: {
+      id: existingToken.id,
+      used_at: null,
+      expires_at: { gt: new Date() },
+    },
+    data: { used_at: new Date() },
+  });
+
+  return count === 0 ? null : existingToken.user;
+}
@@ -0,0 +1,31 @@
+import { db } from "./db.server";
+
+// public: listed and open to join, request: listed but joining needs approval,
+// private: hidden from everyone but its members and joined by invite only
+export const VISIBILITIES = ["public", "request", "private"] as const;
+
+export type Visibility = (typeof VISIBILITIES)[number];
+
+// Check whether a user, signed in or not, may see a community
+export async function canViewCommunity(
+  userId: string | undefined,
+  community: { id: string; owner: string; visibility: string }
+): Promise<boolean> {
+  if (community.visibility !== "private") {
+    return true;
+  }
+
+  if (!userId) {
+    return false;
+  }
+
+  if (community.owner === userId) {
+    return true;
+  }
+
+  const member = await db.member.findFirst({
+    where: { community: community.id, user: userId, deleted_at: null },
+  });
+
+  return !!member;
+}
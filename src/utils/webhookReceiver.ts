@@ -0,0 +1,107 @@
+import http from "http";
+import { parseArgs } from "util";
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from "./webhookSignature";
+
+const USAGE = `Usage: npm run webhook:receive -- [options]
+
+  --port <n>         Port to listen on (default 4000)
+  --secret <text>    Secret of the webhook, deliveries with a wrong signature
+                     are answered with 401
+  --status <n>       Status to answer valid deliveries with, e.g. 500 to see
+                     the API retry (default 200)
+  --help             Show this message`;
+
+// Read the command line options
+function getOptions() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "4000" },
+      secret: { type: "string" },
+      status: { type: "string", default: "200" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const port = Number(values.port);
+  const status = Number(values.status);
+
+  if (!Number.isInteger(port) || port <= 0) {
+    console.error(`--port should be a whole number\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(status) || status < 200 || status > 599) {
+    console.error(`--status should be an HTTP status code\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  return { port, status, secret: values.secret };
+}
+
+// Read a single header value
+function getHeader(req: http.IncomingMessage, name: string) {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Print every delivery and check its signature when the secret is known
+function startReceiver() {
+  const options = getOptions();
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+    });
+
+    req.on("end", () => {
+      const signatureValid = options.secret
+        ? verifyWebhookSignature(
+            options.secret,
+            getHeader(req, TIMESTAMP_HEADER),
+            body,
+            getHeader(req, SIGNATURE_HEADER)
+          )
+        : null;
+
+      const signature =
+        signatureValid === null
+          ? "unchecked"
+          : signatureValid
+          ? "valid"
+          : "INVALID";
+
+      console.log(
+        [
+          new Date().toISOString(),
+          `event=${getHeader(req, EVENT_HEADER)}`,
+          `delivery=${getHeader(req, DELIVERY_HEADER)}`,
+          `signature=${signature}`,
+        ].join(" ")
+      );
+      console.log(body);
+
+      res.statusCode = signatureValid === false ? 401 : options.status;
+      res.end();
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Receiving webhooks on http://localhost:${options.port}/`);
+  });
+}
+
+startReceiver();
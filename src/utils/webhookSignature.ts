@@ -0,0 +1,51 @@
+import crypto from "crypto";
+
+// Headers sent with every webhook delivery
+export const SIGNATURE_HEADER = "x-webhook-signature";
+export const TIMESTAMP_HEADER = "x-webhook-timestamp";
+export const EVENT_HEADER = "x-webhook-event";
+export const DELIVERY_HEADER = "x-webhook-delivery";
+
+// How far the timestamp of a delivery may be off before receivers reject it
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Sign the timestamp and body of a delivery, the timestamp is signed too so
+// a captured delivery cannot be replayed later
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `sha256=${digest}`;
+}
+
+// Check the signature of a delivery the way a receiver should
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined
+): boolean {
+  const seconds = Number(timestamp);
+
+  if (!signature || !Number.isInteger(seconds)) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body));
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,124 @@
+import dns from "dns";
+import net from "net";
+import { config } from "./config";
+
+// Addresses a webhook must not reach: loopback, private networks, link-local
+// addresses such as the 169.254.169.254 cloud metadata endpoint, and other
+// ranges that are not on the public internet
+const blockedAddresses = new net.BlockList();
+
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+blockedAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+blockedAddresses.addSubnet("192.0.0.0", 24, "ipv4");
+blockedAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("198.18.0.0", 15, "ipv4");
+blockedAddresses.addSubnet("224.0.0.0", 3, "ipv4");
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addAddress("::1", "ipv6");
+blockedAddresses.addSubnet("64:ff9b::", 96, "ipv6");
+blockedAddresses.addSubnet("fc00::", 7, "ipv6");
+blockedAddresses.addSubnet("fe80::", 10, "ipv6");
+blockedAddresses.addSubnet("ff00::", 8, "ipv6");
+
+// Check whether an address is outside the public internet, IPv4 addresses
+// mapped into IPv6 are checked as IPv4
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+
+  if (mapped) {
+    return blockedAddresses.check(mapped[1], "ipv4");
+  }
+
+  return blockedAddresses.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// Explain why a host cannot be delivered to
+function getPrivateAddressProblem(host: string): string {
+  return `The host ${host} resolves to a private address.`;
+}
+
+// Hosts of IPv6 URLs are wrapped in brackets
+function getHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+// Resolve the host of a webhook URL and return why it cannot be delivered
+// to, or null when every address it resolves to is public.
+// WEBHOOK_ALLOW_PRIVATE_URLS turns the check off for local development.
+export async function getWebhookUrlProblem(
+  url: string
+): Promise<string | null> {
+  if (config.webhookAllowPrivateUrls) {
+    return null;
+  }
+
+  const host = getHost(new URL(url));
+
+  let addresses: { address: string }[];
+
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `The host ${host} could not be resolved.`;
+  }
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return getPrivateAddressProblem(host);
+  }
+
+  return null;
+}
+
+// Check the host of a webhook URL right before connecting when it is an IP
+// address, connections to those skip lookupWebhookAddress
+export function getWebhookIpProblem(url: URL): string | null {
+  const host = getHost(url);
+
+  if (
+    !config.webhookAllowPrivateUrls &&
+    net.isIP(host) !== 0 &&
+    isPrivateAddress(host)
+  ) {
+    return getPrivateAddressProblem(host);
+  }
+
+  return null;
+}
+
+// Resolve the host of a webhook delivery for its connection, failing when it
+// resolves to a private address. The connection uses the addresses checked
+// here, so a host cannot pass the check and then resolve elsewhere.
+export function lookupWebhookAddress(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family?: number
+  ) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    if (
+      !config.webhookAllowPrivateUrls &&
+      addresses.some(({ address }) => isPrivateAddress(address))
+    ) {
+      callback(new Error(getPrivateAddressProblem(hostname)), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
@@ -0,0 +1,257 @@
+import http from "http";
+import https from "https";
+import type { LookupFunction } from "net";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import type { Prisma, Webhook, WebhookDelivery } from "@prisma/client";
+import { db } from "./db.server";
+import { config } from "./config";
+import { logger } from "./logger";
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from "./webhookSignature";
+import { getWebhookIpProblem, lookupWebhookAddress } from "./webhookUrl";
+
+// Every event a webhook can subscribe to
+export const WEBHOOK_EVENTS = [
+  "member.added",
+  "member.removed",
+  "member.role_changed",
+  "community.updated",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Attempts after which a delivery is given up on
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Delay before the first retry, doubled after every failed attempt
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// How long a receiver gets to answer
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Deliveries sent per poll, and how long a picked delivery is left alone by
+// other workers
+const DELIVERY_BATCH_SIZE = 20;
+const DELIVERY_CLAIM_MS = 60 * 1000;
+
+// Parse the events column of a webhook, ignoring anything unknown
+export function parseWebhookEvents(value: string): WebhookEvent[] {
+  return value
+    .split(",")
+    .filter((event): event is WebhookEvent =>
+      (WEBHOOK_EVENTS as readonly string[]).includes(event)
+    );
+}
+
+// Shape a webhook the way the API returns it, without its secret
+export function toWebhookResponse(webhook: Webhook) {
+  const { secret, ...webhookData } = webhook;
+
+  return { ...webhookData, events: parseWebhookEvents(webhook.events) };
+}
+
+// Shape a delivery the way the API returns it, with its parsed payload
+export function toWebhookDeliveryResponse(delivery: WebhookDelivery) {
+  return { ...delivery, payload: JSON.parse(delivery.payload) };
+}
+
+// Queue a delivery of an event payload for every webhook of the community
+// that subscribed to it, see publishCommunityEvent
+export async function queueWebhookDeliveries(
+  community: string,
+  event: WebhookEvent,
+  payload: string,
+  client: Prisma.TransactionClient = db
+) {
+  const webhooks = await client.webhook.findMany({ where: { community } });
+  const subscribers = webhooks.filter((webhook) =>
+    parseWebhookEvents(webhook.events).includes(event)
+  );
+
+  for (const webhook of subscribers) {
+    await client.webhookDelivery.create({
+      data: {
+        id: Snowflake.generate(),
+        webhook: webhook.id,
+        event,
+        payload,
+      },
+    });
+  }
+}
+
+// Delay before the next attempt after the given number of failed attempts
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+// POST a body to a webhook URL and resolve with the status it answered with.
+// Redirects are not followed, they could lead to a private address.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const ipProblem = getWebhookIpProblem(target);
+
+    if (ipProblem) {
+      reject(new Error(ipProblem));
+      return;
+    }
+
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": Buffer.byteLength(body) },
+        lookup: lookupWebhookAddress as LookupFunction,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        // The body of the answer is not needed
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// POST a delivery to its webhook, signed with the secret of the webhook
+async function sendDelivery(
+  delivery: WebhookDelivery,
+  webhook: Pick<Webhook, "url" | "secret">
+) {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const statusCode = await postWebhook(
+      webhook.url,
+      {
+        "content-type": "application/json",
+        "user-agent": "internet-folks-webhooks",
+        [SIGNATURE_HEADER]: signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload
+        ),
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [EVENT_HEADER]: delivery.event,
+        [DELIVERY_HEADER]: delivery.id,
+      },
+      delivery.payload
+    );
+    const ok = statusCode >= 200 && statusCode < 300;
+
+    return {
+      ok,
+      statusCode,
+      error: ok ? null : `Receiver answered with ${statusCode}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Make one attempt at a delivery and schedule the next one if it failed
+async function attemptDelivery(
+  delivery: WebhookDelivery & { webhook_fk: Webhook }
+) {
+  // Claim the delivery so another worker does not send it at the same time
+  const { count } = await db.webhookDelivery.updateMany({
+    where: {
+      id: delivery.id,
+      status: "pending",
+      next_attempt_at: delivery.next_attempt_at,
+    },
+    data: { next_attempt_at: new Date(Date.now() + DELIVERY_CLAIM_MS) },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  const result = await sendDelivery(delivery, delivery.webhook_fk);
+  const attempts = delivery.attempts + 1;
+
+  if (result.ok) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "succeeded",
+        attempts,
+        last_status_code: result.statusCode,
+        last_error: null,
+        delivered_at: new Date(),
+      },
+    });
+    return;
+  }
+
+  logger.warn(
+    `Webhook delivery ${delivery.id} failed (attempt ${attempts}): ${result.error}`
+  );
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: attempts >= MAX_DELIVERY_ATTEMPTS ? "failed" : "pending",
+      attempts,
+      last_status_code: result.statusCode,
+      last_error: result.error,
+      next_attempt_at: new Date(Date.now() + getRetryDelay(attempts)),
+    },
+  });
+}
+
+// Send the deliveries that are due, oldest first
+export async function deliverDueWebhooks() {
+  const deliveries = await db.webhookDelivery.findMany({
+    where: { status: "pending", next_attempt_at: { lte: new Date() } },
+    include: { webhook_fk: true },
+    orderBy: { next_attempt_at: "asc" },
+    take: DELIVERY_BATCH_SIZE,
+  });
+
+  for (const delivery of deliveries) {
+    await attemptDelivery(delivery);
+  }
+}
+
+// Poll for due deliveries in the background, the returned function stops
+// polling and waits for the deliveries being sent
+export function startWebhookWorker(intervalMs = config.webhookPollIntervalMs) {
+  let running: Promise<void> | null = null;
+
+  const timer = setInterval(() => {
+    // Skip a poll while the previous one is still sending
+    if (running) {
+      return;
+    }
+
+    running = deliverDueWebhooks()
+      .catch((error) => logger.error("Error while delivering webhooks:", error))
+      .finally(() => {
+        running = null;
+      });
+  }, intervalMs);
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}
@@ -0,0 +1,131 @@
+// The environment has to be set before the app reads its configuration
+import "./setup";
+import { after, before } from "node:test";
+import { once } from "events";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import bcrypt from "bcrypt";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { createApp } from "../src/app";
+import { db } from "../src/utils/db.server";
+import { createSession } from "../src/utils/session";
+
+export { db };
+
+export const PASSWORD = "password123";
+
+let server: Server | undefined;
+let baseUrl = "";
+
+// Serve the app on a free port for the tests of the file
+export function useApp() {
+  before(async () => {
+    server = createApp().listen(0);
+    await once(server, "listening");
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server?.close();
+    await db.$disconnect();
+  });
+}
+
+export interface ApiResponse {
+  status: number;
+  // The parsed JSON body, null when there is none
+  body: any;
+}
+
+// Send a request to the app, signed in as the owner of the token when given
+export async function request(
+  method: string,
+  path: string,
+  options: { token?: string; body?: unknown } = {}
+): Promise<ApiResponse> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      "content-type": "application/json",
+      ...(options.token && { authorization: `Bearer ${options.token}` }),
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    redirect: "manual",
+  });
+  const text = await response.text();
+
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+}
+
+export interface TestUser {
+  id: string;
+  email: string;
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Create a user with a verified email address and start a session for them
+export async function createUser(name = "Test User"): Promise<TestUser> {
+  const id = Snowflake.generate();
+  const email = `user-${id}@example.com`;
+
+  await db.user.create({
+    data: {
+      id,
+      name,
+      email,
+      password: await bcrypt.hash(PASSWORD, 4),
+      email_verified_at: new Date(),
+    },
+  });
+
+  const { accessToken, refreshToken } = await createSession(id);
+
+  return { id, email, accessToken, refreshToken };
+}
+
+// Create a community through the API, owned by the user
+export async function createCommunity(
+  owner: TestUser,
+  visibility = "public"
+): Promise<string> {
+  const { status, body } = await request("POST", "/v1/community", {
+    token: owner.accessToken,
+    body: { name: `Community ${Snowflake.generate()}`, visibility },
+  });
+
+  if (status !== 201) {
+    throw new Error(`Could not create a community: ${JSON.stringify(body)}`);
+  }
+
+  return body.content.data.id;
+}
+
+// Get a role by its name, the default roles are created by the migrations
+export async function getRole(name: string) {
+  return db.role.findUniqueOrThrow({ where: { name } });
+}
+
+// Create a role with the given permissions directly in the database
+export async function createRole(permissions: string[]) {
+  return db.role.create({
+    data: {
+      id: Snowflake.generate(),
+      name: `Role ${Snowflake.generate()}`,
+      permissions: permissions.join(","),
+    },
+  });
+}
+
+// Make the user a member of the community with the role
+export async function addMember(
+  community: string,
+  user: TestUser,
+  role: string
+): Promise<string> {
+  const member = await db.member.create({
+    data: { id: Snowflake.generate(), community, user: user.id, role },
+  });
+
+  return member.id;
+}
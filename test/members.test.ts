@@ -0,0 +1,200 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addMember,
+  createCommunity,
+  createRole,
+  createUser,
+  db,
+  getRole,
+  request,
+  useApp,
+} from "./helpers";
+
+useApp();
+
+// Map the users of bulk results to their status
+function statusesByUser(results: { user: string; status: string }[]) {
+  return Object.fromEntries(results.map(({ user, status }) => [user, status]));
+}
+
+describe("bulk adding members", () => {
+  it("reports the outcome of every entry", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const memberRole = await getRole("Community Member");
+    const newUser = await createUser();
+    const existingUser = await createUser();
+    await addMember(community, existingUser, memberRole.id);
+
+    const { status, body } = await request("POST", "/v1/member/bulk", {
+      token: owner.accessToken,
+      body: {
+        community,
+        members: [
+          { user: newUser.id, role: memberRole.id },
+          { user: newUser.id, role: memberRole.id },
+          { user: existingUser.id, role: memberRole.id },
+          { user: "missing-user", role: memberRole.id },
+          { user: (await createUser()).id, role: "missing-role" },
+        ],
+      },
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.content.data.map((result: { status: string }) => result.status),
+      [
+        "created",
+        "duplicate",
+        "already_member",
+        "user_not_found",
+        "role_not_found",
+      ]
+    );
+    assert.deepEqual(body.content.meta, { total: 5, succeeded: 1, failed: 4 });
+  });
+
+  it("refuses roles granting more than the caller holds", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const recruiter = await createUser();
+    await addMember(
+      community,
+      recruiter,
+      (
+        await createRole(["member:add"])
+      ).id
+    );
+    const adminCandidate = await createUser();
+    const memberCandidate = await createUser();
+
+    const { status, body } = await request("POST", "/v1/member/bulk", {
+      token: recruiter.accessToken,
+      body: {
+        community,
+        members: [
+          {
+            user: adminCandidate.id,
+            role: (await getRole("Community Admin")).id,
+          },
+          {
+            user: memberCandidate.id,
+            role: (await getRole("Community Member")).id,
+          },
+        ],
+      },
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(statusesByUser(body.content.data), {
+      [adminCandidate.id]: "not_allowed",
+      [memberCandidate.id]: "created",
+    });
+  });
+
+  it("applies nothing in atomic mode when an entry fails", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const memberRole = await getRole("Community Member");
+    const newUser = await createUser();
+
+    const { status, body } = await request(
+      "POST",
+      "/v1/member/bulk?atomic=true",
+      {
+        token: owner.accessToken,
+        body: {
+          community,
+          members: [
+            { user: newUser.id, role: memberRole.id },
+            { user: "missing-user", role: memberRole.id },
+          ],
+        },
+      }
+    );
+
+    assert.equal(status, 400);
+    assert.equal(body.errors[0].code, "USER_NOT_FOUND");
+    assert.equal(
+      await db.member.count({ where: { community, user: newUser.id } }),
+      0
+    );
+  });
+
+  it("requires the member:add permission", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const memberRole = await getRole("Community Member");
+    const plainMember = await createUser();
+    await addMember(community, plainMember, memberRole.id);
+
+    const { status } = await request("POST", "/v1/member/bulk", {
+      token: plainMember.accessToken,
+      body: {
+        community,
+        members: [{ user: (await createUser()).id, role: memberRole.id }],
+      },
+    });
+
+    assert.equal(status, 403);
+  });
+});
+
+describe("bulk removing members", () => {
+  it("reports the outcome of every entry", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const member = await createUser();
+    await addMember(community, member, (await getRole("Community Member")).id);
+    const stranger = await createUser();
+
+    const { status, body } = await request("DELETE", "/v1/member/bulk", {
+      token: owner.accessToken,
+      body: {
+        community,
+        members: [
+          { user: member.id },
+          { user: stranger.id },
+          { user: owner.id },
+        ],
+      },
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(statusesByUser(body.content.data), {
+      [member.id]: "removed",
+      [stranger.id]: "not_member",
+      [owner.id]: "not_member",
+    });
+    assert.equal(
+      await db.member.count({
+        where: { community, user: member.id, deleted_at: null },
+      }),
+      0
+    );
+  });
+
+  it("keeps moderators from removing admins", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const moderator = await createUser();
+    await addMember(
+      community,
+      moderator,
+      (
+        await getRole("Community Moderator")
+      ).id
+    );
+    const admin = await createUser();
+    await addMember(community, admin, (await getRole("Community Admin")).id);
+
+    const { status, body } = await request("DELETE", "/v1/member/bulk", {
+      token: moderator.accessToken,
+      body: { community, members: [{ user: admin.id }] },
+    });
+
+    assert.equal(status, 200);
+    assert.equal(body.content.data[0].status, "not_allowed");
+  });
+});
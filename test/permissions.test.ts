@@ -0,0 +1,168 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addMember,
+  createCommunity,
+  createRole,
+  createUser,
+  getRole,
+  request,
+  useApp,
+} from "./helpers";
+
+useApp();
+
+describe("creating roles", () => {
+  it("requires a signed in user", async () => {
+    const { status } = await request("POST", "/v1/role", {
+      body: { name: "Anonymous", permissions: [] },
+    });
+
+    assert.equal(status, 401);
+  });
+
+  it("rejects the names of the default roles", async () => {
+    const owner = await createUser();
+    await createCommunity(owner);
+
+    for (const name of ["Community Admin", "community member"]) {
+      const { status } = await request("POST", "/v1/role", {
+        token: owner.accessToken,
+        body: { name, permissions: ["member:add"] },
+      });
+
+      assert.equal(status, 400, name);
+    }
+  });
+
+  it("only grants permissions the user holds in some community", async () => {
+    const user = await createUser();
+
+    const withPermissions = await request("POST", "/v1/role", {
+      token: user.accessToken,
+      body: { name: "Escalated", permissions: ["member:add"] },
+    });
+    assert.equal(withPermissions.status, 403);
+
+    const withoutPermissions = await request("POST", "/v1/role", {
+      token: user.accessToken,
+      body: { name: "Harmless", permissions: [] },
+    });
+    assert.equal(withoutPermissions.status, 200);
+  });
+
+  it("lets community owners grant every permission", async () => {
+    const owner = await createUser();
+    await createCommunity(owner);
+
+    const { status, body } = await request("POST", "/v1/role", {
+      token: owner.accessToken,
+      body: { name: "Owner Made", permissions: ["member:add", "audit:view"] },
+    });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.content.data.permissions, [
+      "member:add",
+      "audit:view",
+    ]);
+  });
+});
+
+describe("adding members", () => {
+  it("requires the member:add permission", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const memberRole = await getRole("Community Member");
+    const plainMember = await createUser();
+    await addMember(community, plainMember, memberRole.id);
+    const newUser = await createUser();
+
+    const { status } = await request("POST", "/v1/member", {
+      token: plainMember.accessToken,
+      body: { community, user: newUser.id, role: memberRole.id },
+    });
+
+    assert.equal(status, 403);
+  });
+
+  it("only lets members assign roles granting what they hold", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const recruiterRole = await createRole(["member:add"]);
+    const recruiter = await createUser();
+    await addMember(community, recruiter, recruiterRole.id);
+
+    const adminRole = await getRole("Community Admin");
+    const memberRole = await getRole("Community Member");
+
+    const escalated = await request("POST", "/v1/member", {
+      token: recruiter.accessToken,
+      body: { community, user: (await createUser()).id, role: adminRole.id },
+    });
+    assert.equal(escalated.status, 403);
+
+    const plain = await request("POST", "/v1/member", {
+      token: recruiter.accessToken,
+      body: { community, user: (await createUser()).id, role: memberRole.id },
+    });
+    assert.equal(plain.status, 200);
+  });
+
+  it("lets the owner assign any role", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const adminRole = await getRole("Community Admin");
+
+    const { status } = await request("POST", "/v1/member", {
+      token: owner.accessToken,
+      body: { community, user: (await createUser()).id, role: adminRole.id },
+    });
+
+    assert.equal(status, 200);
+  });
+
+  it("keeps moderators from removing admins", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const moderator = await createUser();
+    await addMember(
+      community,
+      moderator,
+      (
+        await getRole("Community Moderator")
+      ).id
+    );
+    const adminMember = await addMember(
+      community,
+      await createUser(),
+      (
+        await getRole("Community Admin")
+      ).id
+    );
+
+    const { status } = await request("DELETE", `/v1/member/${adminMember}`, {
+      token: moderator.accessToken,
+    });
+
+    assert.equal(status, 403);
+  });
+});
+
+describe("joining a community", () => {
+  it("gives the member a role that grants no permissions", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner, "public");
+    const user = await createUser();
+
+    const { status, body } = await request(
+      "POST",
+      `/v1/community/${community}/join`,
+      { token: user.accessToken }
+    );
+
+    assert.equal(status, 200);
+
+    const role = await getRole(body.content.data.role.name);
+    assert.equal(role.permissions, "");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PASSWORD, createUser, request, useApp } from "./helpers";
+
+useApp();
+
+// Exchange a refresh token for a new token pair
+function refresh(refreshToken: string) {
+  return request("POST", "/v1/auth/refresh", {
+    body: { refresh_token: refreshToken },
+  });
+}
+
+describe("refresh tokens", () => {
+  it("issues a token pair on sign in", async () => {
+    const user = await createUser();
+
+    const { status, body } = await request("POST", "/v1/auth/signin", {
+      body: { email: user.email, password: PASSWORD },
+    });
+
+    assert.equal(status, 200);
+    assert.ok(body.content.meta.access_token);
+    assert.ok(body.content.meta.refresh_token);
+  });
+
+  it("rotates the refresh token on every use", async () => {
+    const user = await createUser();
+
+    const first = await refresh(user.refreshToken);
+    assert.equal(first.status, 200);
+    assert.notEqual(first.body.content.meta.refresh_token, user.refreshToken);
+
+    const me = await request("GET", "/v1/auth/me", {
+      token: first.body.content.meta.access_token,
+    });
+    assert.equal(me.status, 200);
+    assert.equal(me.body.content.data.id, user.id);
+
+    const second = await refresh(first.body.content.meta.refresh_token);
+    assert.equal(second.status, 200);
+  });
+
+  it("revokes the session when a refresh token is used twice", async () => {
+    const user = await createUser();
+
+    const rotated = await refresh(user.refreshToken);
+    assert.equal(rotated.status, 200);
+
+    const reused = await refresh(user.refreshToken);
+    assert.equal(reused.status, 401);
+    assert.equal(reused.body.errors[0].code, "INVALID_TOKEN");
+
+    // The tokens issued by the rotation belong to the revoked session too
+    const afterReuse = await refresh(rotated.body.content.meta.refresh_token);
+    assert.equal(afterReuse.status, 401);
+
+    const me = await request("GET", "/v1/auth/me", {
+      token: rotated.body.content.meta.access_token,
+    });
+    assert.equal(me.status, 401);
+  });
+
+  it("rejects refresh tokens of a session that was logged out", async () => {
+    const user = await createUser();
+
+    const logout = await request("POST", "/v1/auth/logout", {
+      token: user.accessToken,
+    });
+    assert.equal(logout.status, 200);
+
+    const { status } = await refresh(user.refreshToken);
+    assert.equal(status, 401);
+  });
+
+  it("rejects unknown refresh tokens", async () => {
+    const { status } = await refresh("not-a-refresh-token");
+    assert.equal(status, 401);
+  });
+});
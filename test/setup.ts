@@ -0,0 +1,29 @@
+import { execSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Every test file runs in its own process, so each gets a database of its own
+const databaseFile = path.join(
+  os.tmpdir(),
+  `internet-folks-test-${process.pid}.db`
+);
+
+process.env.DATABASE_URL = `file:${databaseFile}`;
+process.env.PORT ??= "3000";
+process.env.JWT_SECRET ??= "test-secret";
+process.env.BCRYPT_ROUNDS = "4";
+process.env.LOG_LEVEL = "error";
+process.env.RATE_LIMIT_STORE = "memory";
+
+// Create the tables and the default roles the way a deployment does
+execSync("npx --no-install prisma migrate deploy", {
+  cwd: path.join(__dirname, ".."),
+  env: process.env,
+  stdio: ["ignore", "ignore", "inherit"],
+});
+
+process.on("exit", () => {
+  fs.rmSync(databaseFile, { force: true });
+  fs.rmSync(`${databaseFile}-journal`, { force: true });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addMember,
+  createCommunity,
+  createUser,
+  db,
+  getRole,
+  request,
+  useApp,
+} from "./helpers";
+
+useApp();
+
+describe("deleting and restoring communities", () => {
+  it("hides a deleted community until the owner restores it", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+
+    const deleted = await request("DELETE", `/v1/community/${community}`, {
+      token: owner.accessToken,
+    });
+    assert.equal(deleted.status, 200);
+
+    const hidden = await request("GET", `/v1/community/${community}`);
+    assert.equal(hidden.status, 404);
+
+    const restored = await request(
+      "POST",
+      `/v1/community/${community}/restore`,
+      { token: owner.accessToken }
+    );
+    assert.equal(restored.status, 200);
+
+    const visible = await request("GET", `/v1/community/${community}`);
+    assert.equal(visible.status, 200);
+  });
+
+  it("lets admins restore but not other members or strangers", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const admin = await createUser();
+    await addMember(community, admin, (await getRole("Community Admin")).id);
+    const member = await createUser();
+    await addMember(community, member, (await getRole("Community Member")).id);
+    const stranger = await createUser();
+
+    await request("DELETE", `/v1/community/${community}`, {
+      token: owner.accessToken,
+    });
+
+    const restoreAs = (token: string) =>
+      request("POST", `/v1/community/${community}/restore`, { token });
+
+    assert.equal((await restoreAs(stranger.accessToken)).status, 404);
+    assert.equal((await restoreAs(member.accessToken)).status, 403);
+    assert.equal((await restoreAs(admin.accessToken)).status, 200);
+  });
+
+  it("refuses to restore a community that is not deleted", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+
+    const { status, body } = await request(
+      "POST",
+      `/v1/community/${community}/restore`,
+      { token: owner.accessToken }
+    );
+
+    assert.equal(status, 409);
+    assert.equal(body.errors[0].code, "NOT_DELETED");
+  });
+
+  it("refuses to restore once the retention window is over", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    await db.community.update({
+      where: { id: community },
+      data: { deleted_at: new Date("2000-01-01") },
+    });
+
+    const { status, body } = await request(
+      "POST",
+      `/v1/community/${community}/restore`,
+      { token: owner.accessToken }
+    );
+
+    assert.equal(status, 410);
+    assert.equal(body.errors[0].code, "RESTORE_EXPIRED");
+  });
+});
+
+describe("removing and restoring members", () => {
+  it("leaves removed members out until they are restored", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const user = await createUser();
+    const member = await addMember(
+      community,
+      user,
+      (
+        await getRole("Community Member")
+      ).id
+    );
+
+    const memberIds = async () => {
+      const { body } = await request(
+        "GET",
+        `/v1/community/${community}/members`
+      );
+      return body.content.data.map((entry: { id: string }) => entry.id);
+    };
+
+    const removed = await request("DELETE", `/v1/member/${member}`, {
+      token: owner.accessToken,
+    });
+    assert.equal(removed.status, 200);
+    assert.ok(!(await memberIds()).includes(member));
+
+    const restored = await request("POST", `/v1/member/${member}/restore`, {
+      token: owner.accessToken,
+    });
+    assert.equal(restored.status, 200);
+    assert.ok((await memberIds()).includes(member));
+
+    const again = await request("POST", `/v1/member/${member}/restore`, {
+      token: owner.accessToken,
+    });
+    assert.equal(again.status, 409);
+  });
+
+  it("requires the member:add permission to restore", async () => {
+    const owner = await createUser();
+    const community = await createCommunity(owner);
+    const memberRole = await getRole("Community Member");
+    const plainMember = await createUser();
+    await addMember(community, plainMember, memberRole.id);
+    const removedMember = await addMember(
+      community,
+      await createUser(),
+      memberRole.id
+    );
+
+    await request("DELETE", `/v1/member/${removedMember}`, {
+      token: owner.accessToken,
+    });
+
+    const { status } = await request(
+      "POST",
+      `/v1/member/${removedMember}/restore`,
+      { token: plainMember.accessToken }
+    );
+
+    assert.equal(status, 403);
+  });
+});
@@ -3,6 +3,7 @@ export interface User {
   name?: string;
   email: string;
   password: string;
+  email_verified_at?: Date;
   created_at: Date;
 }
 
@@ -11,13 +12,16 @@ export interface Community {
   name: string;
   slug: string;
   owner: string;
+  visibility: string;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date;
 }
 
 export interface Role {
   id: string;
   name: string;
+  permissions: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -28,4 +32,5 @@ export interface Member {
   user: string;
   role: string;
   created_at: Date;
+  deleted_at?: Date;
 }